@@ -0,0 +1,7 @@
+// Compile the specs (and the sources they import) on the fly; the library itself is built as ES modules.
+require('ts-node').register({
+    transpileOnly: true,
+    compilerOptions: {
+        module: 'commonjs',
+    },
+});
@@ -0,0 +1,87 @@
+import { diffArrayPatchOperations } from './array-diff';
+
+/**
+ * Apply index-level operations on a (copy of an) array, to check that they turn one array into the other.
+ */
+function apply(array: any[], ops: any[]): any[] {
+    var result = JSON.parse(JSON.stringify(array)),
+        index = (path: string) => path.substr(path.lastIndexOf('/') + 1);
+
+    for (var op of ops) {
+        switch (op.op) {
+            case 'add':
+                index(op.path) === '-' ? result.push(op.value) : result.splice(parseInt(index(op.path), 10), 0, op.value);
+                break;
+            case 'remove':
+                result.splice(parseInt(index(op.path), 10), 1);
+                break;
+            case 'replace':
+                result[parseInt(index(op.path), 10)] = op.value;
+                break;
+            case 'move':
+                result.splice(parseInt(index(op.path), 10), 0, result.splice(parseInt(index(op.from), 10), 1)[0]);
+                break;
+            case 'test':
+                expect(result[parseInt(index(op.path), 10)]).toEqual(op.value);
+                break;
+        }
+    }
+    return result;
+}
+
+describe('diffArrayPatchOperations', () => {
+    it('returns no operations for equal arrays', () => {
+        expect(diffArrayPatchOperations('/tags', ['a', 'b'], ['a', 'b'])).toEqual([]);
+    });
+
+    it('appends new items at the end', () => {
+        expect(diffArrayPatchOperations('/tags', ['a'], ['a', 'b'])).toEqual([{ op: 'add', path: '/tags/-', value: 'b' } as any]);
+    });
+
+    it('removes items back to front', () => {
+        var ops = diffArrayPatchOperations('/tags', ['a', 'b', 'c', 'd'], ['b', 'd']);
+
+        expect(ops.map(x => x.path)).toEqual(['/tags/2', '/tags/0']);
+        expect(apply(['a', 'b', 'c', 'd'], ops)).toEqual(['b', 'd']);
+    });
+
+    it('moves reordered items instead of replacing them', () => {
+        var ops = diffArrayPatchOperations('/tags', ['a', 'b', 'c'], ['c', 'a', 'b']);
+
+        expect(ops).toEqual([{ op: 'move', from: '/tags/2', path: '/tags/0' } as any]);
+    });
+
+    it('matches objects by identity and replaces changed ones', () => {
+        var from = [{ id: 1, name: 'one' }, { id: 2, name: 'two' }, { id: 3, name: 'three' }],
+            to = [{ id: 3, name: 'three' }, { id: 1, name: 'uno' }, { id: 4, name: 'four' }],
+            ops = diffArrayPatchOperations('/lines', from, to, 'id');
+
+        expect(ops.filter(x => x.op === 'replace').length).toBe(1);
+        expect(apply(from, ops)).toEqual(to);
+    });
+
+    it('adds test operations before destructive operations when asked to', () => {
+        var ops = diffArrayPatchOperations('/tags', ['a', 'b'], ['b'], void 0, true);
+
+        expect(ops).toEqual([
+            { op: 'test', path: '/tags/0', value: 'a' } as any,
+            { op: 'remove', path: '/tags/0' } as any,
+        ]);
+    });
+
+    it('handles empty and missing arrays', () => {
+        expect(apply([], diffArrayPatchOperations('/tags', null, ['a', 'b']))).toEqual(['a', 'b']);
+        expect(apply(['a'], diffArrayPatchOperations('/tags', ['a'], null))).toEqual([]);
+    });
+
+    it('produces operations that turn the old array into the new one', () => {
+        var cases: [any[], any[]][] = [
+            [[1, 2, 3, 4, 5], [5, 3, 1]],
+            [[1, 1, 2], [2, 1, 1, 1]],
+            [['x', 'y'], ['y', 'z', 'x']],
+        ];
+        for (var [from, to] of cases) {
+            expect(apply(from, diffArrayPatchOperations('/a', from, to, void 0, true))).toEqual(to);
+        }
+    });
+});
@@ -0,0 +1,96 @@
+import { JsonPatchOperation } from 'json-schema-services';
+
+import * as _ from 'lodash';
+
+/**
+ * Create a minimal list of index-level patch operations (add, remove, move and replace) that turn one array into another.
+ *
+ * Items are matched by deep equality, or by the value of their identity property if an identity key is given.
+ * Items that are matched by identity but have different contents are replaced.
+ *
+ * @param path JSON-Pointer to the array.
+ * @param from The original array.
+ * @param to The new array.
+ * @param identityKey (Optional) Name of the property that identifies the items in an array of objects.
+ * @param includeTests (Optional, default: false) Whether or not to include tests for the old items before they are removed, moved or replaced.
+ *
+ * @return The operations to apply in order.
+ */
+export function diffArrayPatchOperations(
+    path: string,
+    from: any[],
+    to: any[],
+    identityKey?: string,
+    includeTests: boolean = false,
+): JsonPatchOperation[] {
+    var ops: JsonPatchOperation[] = [],
+        current = (from || []).slice(),
+        target = to || [],
+        matches = (a: any, b: any): boolean => identityKey != null && _.isPlainObject(a) && _.isPlainObject(b) && a[identityKey] != null
+            ? a[identityKey] === b[identityKey]
+            : _.isEqual(a, b);
+
+    // Determine which of the current items are still in the target array.
+    var claimed: boolean[] = target.map(() => false),
+        kept: boolean[] = current.map(item => {
+            var index = target.findIndex((x, i) => !claimed[i] && matches(item, x));
+            if (index > -1) {
+                claimed[index] = true;
+                return true;
+            }
+            return false;
+        });
+
+    // Remove the items that are no longer there (back to front, so the indexes stay valid).
+    for (var i = current.length - 1; i >= 0; i--) {
+        if (!kept[i]) {
+            if (includeTests) {
+                ops.push({ op: 'test', path: path + '/' + i, value: current[i] } as JsonPatchOperation);
+            }
+            ops.push({ op: 'remove', path: path + '/' + i } as JsonPatchOperation);
+            current.splice(i, 1);
+        }
+    }
+
+    // Walk over the target, and move, add or replace items so the current array matches it.
+    for (var j = 0; j < target.length; j++) {
+        if (j < current.length && matches(current[j], target[j])) {
+            if (!_.isEqual(current[j], target[j])) {
+                if (includeTests) {
+                    ops.push({ op: 'test', path: path + '/' + j, value: current[j] } as JsonPatchOperation);
+                }
+                ops.push({ op: 'replace', path: path + '/' + j, value: target[j] } as JsonPatchOperation);
+                current[j] = target[j];
+            }
+            continue;
+        }
+
+        var source = claimed[j] ? current.findIndex((x, k) => k > j && matches(x, target[j])) : -1;
+        if (source > -1) {
+            if (includeTests) {
+                ops.push({ op: 'test', path: path + '/' + source, value: current[source] } as JsonPatchOperation);
+            }
+            ops.push({ op: 'move', from: path + '/' + source, path: path + '/' + j } as JsonPatchOperation);
+            current.splice(j, 0, current.splice(source, 1)[0]);
+
+            if (!_.isEqual(current[j], target[j])) {
+                ops.push({ op: 'replace', path: path + '/' + j, value: target[j] } as JsonPatchOperation);
+                current[j] = target[j];
+            }
+        }
+        else {
+            ops.push({ op: 'add', path: path + '/' + (j >= current.length ? '-' : j), value: target[j] } as JsonPatchOperation);
+            current.splice(j, 0, target[j]);
+        }
+    }
+
+    // Remove any items that were left over (e.g. when duplicate identities were found).
+    for (var k = current.length - 1; k >= target.length; k--) {
+        if (includeTests) {
+            ops.push({ op: 'test', path: path + '/' + k, value: current[k] } as JsonPatchOperation);
+        }
+        ops.push({ op: 'remove', path: path + '/' + k } as JsonPatchOperation);
+    }
+
+    return ops;
+}
@@ -0,0 +1,57 @@
+import { compileComputedExpression, getComputedFieldDefinition } from './computed-fields';
+
+describe('computed-fields', () => {
+    describe('getComputedFieldDefinition', () => {
+        it('reads the expression from the data.compute property', () => {
+            expect(getComputedFieldDefinition({ data: { compute: '{/a} + 1' } } as any)).toEqual({ expression: '{/a} + 1', overridable: false });
+            expect(getComputedFieldDefinition({ data: { compute: { expression: '{/a}', overridable: true } } } as any))
+                .toEqual({ expression: '{/a}', overridable: true });
+        });
+
+        it('returns null for fields that are not computed', () => {
+            expect(getComputedFieldDefinition({} as any)).toBeNull();
+            expect(getComputedFieldDefinition({ data: { compute: { overridable: true } } } as any)).toBeNull();
+        });
+    });
+
+    describe('compileComputedExpression', () => {
+        var values: { [pointer: string]: any } = { '/price': 2.5, '/quantity': '4', '/name': '  Crème Brûlée ', '1/first': 'Jane', '/tags': ['a', '', 'b'] },
+            evaluate = (expression: string) => compileComputedExpression(expression).evaluate(x => values[x]);
+
+        it('collects the referenced pointers', () => {
+            expect(compileComputedExpression('{/price} * {/quantity} + {/price}').pointers).toEqual(['/price', '/quantity']);
+        });
+
+        it('evaluates arithmetic with the usual precedence', () => {
+            expect(evaluate('{/price} * {/quantity} + 1')).toBe(11);
+            expect(evaluate('({/price} + 0.5) * 2')).toBe(6);
+            expect(evaluate('-{/price} % 2')).toBe(-0.5);
+            expect(evaluate('10 / 0')).toBeNull();
+        });
+
+        it('concatenates when one side of + is a string', () => {
+            expect(evaluate('{1/first} + \' \' + 42')).toBe('Jane 42');
+        });
+
+        it('treats missing values as empty', () => {
+            expect(evaluate('{/missing} + 1')).toBe(1);
+            expect(evaluate('coalesce({/missing}, \'\', \'x\')')).toBe('x');
+        });
+
+        it('supports the built-in functions', () => {
+            expect(evaluate('sum(1, {/quantity}, {/price})')).toBe(7.5);
+            expect(evaluate('round(2.345, 2)')).toBe(2.35);
+            expect(evaluate('max(1, 3, 2)')).toBe(3);
+            expect(evaluate('upper(trim({/name}))')).toBe('CRÈME BRÛLÉE');
+            expect(evaluate('slug({/name})')).toBe('creme-brulee');
+            expect(evaluate('join({/tags}, \', \')')).toBe('a, b');
+        });
+
+        it('throws on syntax errors', () => {
+            expect(() => compileComputedExpression('{/a} +')).toThrowError(/end of expression/);
+            expect(() => compileComputedExpression('unknown(1)')).toThrowError(/Unknown function/);
+            expect(() => compileComputedExpression('\'open')).toThrowError(/Unterminated string/);
+            expect(() => compileComputedExpression('{/a')).toThrowError(/Unterminated pointer/);
+        });
+    });
+});
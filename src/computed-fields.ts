@@ -0,0 +1,355 @@
+import { ExtendedFieldDescriptor } from 'json-schema-services';
+
+import * as _ from 'lodash';
+
+/**
+ * Definition of a computed field, as set in the "data.compute" property of a field in the schema.
+ *
+ * The compute property can either be the expression itself, or an object containing the expression and options.
+ *
+ * Expressions support numbers, 'strings', references to other fields by (relative or absolute) JSON-Pointer like {/price} or {1/name},
+ * the operators + - * / % (where + concatenates when one side is a string), parentheses and the functions:
+ * sum, min, max, round, concat, join, lower, upper, trim, slug and coalesce.
+ *
+ * @example "{/price} * {/quantity}"
+ * @example { "expression": "slug({/name})", "overridable": true }
+ */
+export interface ComputedFieldDefinition {
+    /**
+     * The expression that calculates the value of the field.
+     */
+    expression: string;
+
+    /**
+     * Whether or not the user can override the computed value (by default computed fields are readonly).
+     */
+    overridable?: boolean;
+}
+
+/**
+ * A parsed computed field expression.
+ */
+export interface CompiledComputedExpression {
+    /**
+     * The original expression.
+     */
+    expression: string;
+
+    /**
+     * All the (unresolved) pointers referenced by the expression.
+     */
+    pointers: string[];
+
+    /**
+     * Evaluate the expression.
+     *
+     * @param resolve Method that returns the value for a pointer that is referenced in the expression.
+     */
+    evaluate(resolve: (pointer: string) => any): any;
+}
+
+/**
+ * Get the computed field definition for the given field, if it is a computed field.
+ *
+ * @param descriptor The field descriptor to get the definition for.
+ */
+export function getComputedFieldDefinition(descriptor: ExtendedFieldDescriptor): ComputedFieldDefinition | null {
+    var data: any = (descriptor as any).data;
+    if (data == null || data.compute == null) {
+        return null;
+    }
+
+    if (typeof data.compute === 'string') {
+        return { expression: data.compute, overridable: false };
+    }
+    if (typeof data.compute.expression === 'string') {
+        return { expression: data.compute.expression, overridable: data.compute.overridable === true };
+    }
+    return null;
+}
+
+/**
+ * Parse the given expression, so it can be evaluated.
+ *
+ * @param expression The computed field expression.
+ *
+ * @throws Error when the expression contains a syntax error.
+ */
+export function compileComputedExpression(expression: string): CompiledComputedExpression {
+    var parser = new ExpressionParser(tokenize(expression)),
+        ast = parser.parse();
+
+    return {
+        expression,
+        pointers: _.uniq(parser.pointers),
+        evaluate: resolve => evaluateNode(ast, resolve),
+    };
+}
+
+//#region Tokenizer
+type TokenType = 'number' | 'string' | 'pointer' | 'identifier' | 'operator' | 'open' | 'close' | 'comma';
+
+interface Token {
+    type: TokenType;
+    value: string;
+    position: number;
+}
+
+/**
+ * Split the expression into tokens.
+ */
+function tokenize(expression: string): Token[] {
+    var tokens: Token[] = [],
+        i = 0;
+
+    while (i < expression.length) {
+        var char = expression[i];
+
+        if (/\s/.test(char)) {
+            i++;
+        }
+        else if (/[0-9.]/.test(char)) {
+            var number = /^[0-9]*\.?[0-9]+(e[+-]?[0-9]+)?/i.exec(expression.substr(i));
+            if (number == null) {
+                throw new Error(`Invalid number at position ${i} in expression "${expression}".`);
+            }
+            tokens.push({ type: 'number', value: number[0], position: i });
+            i += number[0].length;
+        }
+        else if (char === '\'' || char === '"') {
+            var end = i + 1, value = '';
+            while (end < expression.length && expression[end] !== char) {
+                if (expression[end] === '\\' && end + 1 < expression.length) {
+                    end++;
+                }
+                value += expression[end++];
+            }
+            if (end >= expression.length) {
+                throw new Error(`Unterminated string at position ${i} in expression "${expression}".`);
+            }
+            tokens.push({ type: 'string', value, position: i });
+            i = end + 1;
+        }
+        else if (char === '{') {
+            var close = expression.indexOf('}', i);
+            if (close < 0) {
+                throw new Error(`Unterminated pointer reference at position ${i} in expression "${expression}".`);
+            }
+            tokens.push({ type: 'pointer', value: expression.substring(i + 1, close).trim(), position: i });
+            i = close + 1;
+        }
+        else if (/[a-z_]/i.test(char)) {
+            var identifier = /^[a-z_][a-z0-9_]*/i.exec(expression.substr(i))[0];
+            tokens.push({ type: 'identifier', value: identifier, position: i });
+            i += identifier.length;
+        }
+        else if ('+-*/%'.indexOf(char) > -1) {
+            tokens.push({ type: 'operator', value: char, position: i++ });
+        }
+        else if (char === '(') {
+            tokens.push({ type: 'open', value: char, position: i++ });
+        }
+        else if (char === ')') {
+            tokens.push({ type: 'close', value: char, position: i++ });
+        }
+        else if (char === ',') {
+            tokens.push({ type: 'comma', value: char, position: i++ });
+        }
+        else {
+            throw new Error(`Unexpected character "${char}" at position ${i} in expression "${expression}".`);
+        }
+    }
+
+    return tokens;
+}
+//#endregion
+
+//#region Parser
+type ExpressionNode =
+    { kind: 'literal', value: any } |
+    { kind: 'pointer', pointer: string } |
+    { kind: 'unary', operator: string, operand: ExpressionNode } |
+    { kind: 'binary', operator: string, left: ExpressionNode, right: ExpressionNode } |
+    { kind: 'call', name: string, args: ExpressionNode[] };
+
+/**
+ * Recursive descent parser for computed field expressions.
+ */
+class ExpressionParser {
+    /**
+     * All pointers that were encountered while parsing.
+     */
+    public pointers: string[] = [];
+
+    /**
+     * Index of the current token.
+     */
+    private index: number = 0;
+
+    public constructor(private tokens: Token[]) { }
+
+    /**
+     * Parse the tokens into an expression tree.
+     */
+    public parse(): ExpressionNode {
+        var node = this.parseAdditive();
+        if (this.index < this.tokens.length) {
+            throw new Error(`Unexpected "${this.tokens[this.index].value}" at position ${this.tokens[this.index].position}.`);
+        }
+        return node;
+    }
+
+    private parseAdditive(): ExpressionNode {
+        var node = this.parseMultiplicative();
+        while (this.peek('operator', '+') || this.peek('operator', '-')) {
+            var operator = this.tokens[this.index++].value;
+            node = { kind: 'binary', operator, left: node, right: this.parseMultiplicative() };
+        }
+        return node;
+    }
+
+    private parseMultiplicative(): ExpressionNode {
+        var node = this.parseUnary();
+        while (this.peek('operator', '*') || this.peek('operator', '/') || this.peek('operator', '%')) {
+            var operator = this.tokens[this.index++].value;
+            node = { kind: 'binary', operator, left: node, right: this.parseUnary() };
+        }
+        return node;
+    }
+
+    private parseUnary(): ExpressionNode {
+        if (this.peek('operator', '-') || this.peek('operator', '+')) {
+            var operator = this.tokens[this.index++].value;
+            return { kind: 'unary', operator, operand: this.parseUnary() };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): ExpressionNode {
+        var token = this.tokens[this.index++];
+        if (token == null) {
+            throw new Error('Unexpected end of expression.');
+        }
+
+        switch (token.type) {
+            case 'number':
+                return { kind: 'literal', value: parseFloat(token.value) };
+            case 'string':
+                return { kind: 'literal', value: token.value };
+            case 'pointer':
+                this.pointers.push(token.value);
+                return { kind: 'pointer', pointer: token.value };
+            case 'open':
+                var node = this.parseAdditive();
+                this.expect('close');
+                return node;
+            case 'identifier':
+                if (token.value === 'true' || token.value === 'false') {
+                    return { kind: 'literal', value: token.value === 'true' };
+                }
+                if (token.value === 'null') {
+                    return { kind: 'literal', value: null };
+                }
+                if (!expressionFunctions.hasOwnProperty(token.value)) {
+                    throw new Error(`Unknown function "${token.value}" at position ${token.position}.`);
+                }
+                this.expect('open');
+                var args: ExpressionNode[] = [];
+                if (!this.peek('close')) {
+                    args.push(this.parseAdditive());
+                    while (this.peek('comma')) {
+                        this.index++;
+                        args.push(this.parseAdditive());
+                    }
+                }
+                this.expect('close');
+                return { kind: 'call', name: token.value, args };
+            default:
+                throw new Error(`Unexpected "${token.value}" at position ${token.position}.`);
+        }
+    }
+
+    private peek(type: TokenType, value?: string): boolean {
+        var token = this.tokens[this.index];
+        return token != null && token.type === type && (value == null || token.value === value);
+    }
+
+    private expect(type: TokenType): void {
+        if (!this.peek(type)) {
+            var token = this.tokens[this.index];
+            throw new Error(token == null ? 'Unexpected end of expression.' : `Unexpected "${token.value}" at position ${token.position}.`);
+        }
+        this.index++;
+    }
+}
+//#endregion
+
+//#region Evaluation
+/**
+ * Functions that can be used in expressions.
+ */
+const expressionFunctions: { [name: string]: (...args: any[]) => any } = {
+    sum: (...args: any[]) => _.flatten(args).reduce((total: number, x: any) => total + toNumber(x), 0),
+    min: (...args: any[]) => _.min(_.flatten(args).map(toNumber)),
+    max: (...args: any[]) => _.max(_.flatten(args).map(toNumber)),
+    round: (value: any, digits?: any) => _.round(toNumber(value), digits == null ? 0 : toNumber(digits)),
+    concat: (...args: any[]) => args.map(toText).join(''),
+    join: (values: any, separator?: any) => (Array.isArray(values) ? values : [values]).map(toText).filter(x => x.length > 0).join(separator == null ? '' : toText(separator)),
+    lower: (value: any) => toText(value).toLowerCase(),
+    upper: (value: any) => toText(value).toUpperCase(),
+    trim: (value: any) => toText(value).trim(),
+    slug: (value: any) => _.kebabCase(_.deburr(toText(value))),
+    coalesce: (...args: any[]) => _.find(args, x => x != null && x !== ''),
+};
+
+/**
+ * Evaluate the given expression tree.
+ */
+function evaluateNode(node: ExpressionNode, resolve: (pointer: string) => any): any {
+    switch (node.kind) {
+        case 'literal':
+            return node.value;
+        case 'pointer':
+            return resolve(node.pointer);
+        case 'unary':
+            var operand = toNumber(evaluateNode(node.operand, resolve));
+            return node.operator === '-' ? -operand : operand;
+        case 'binary':
+            var left = evaluateNode(node.left, resolve),
+                right = evaluateNode(node.right, resolve);
+            switch (node.operator) {
+                case '+':
+                    return typeof left === 'string' || typeof right === 'string'
+                        ? toText(left) + toText(right)
+                        : toNumber(left) + toNumber(right);
+                case '-':
+                    return toNumber(left) - toNumber(right);
+                case '*':
+                    return toNumber(left) * toNumber(right);
+                case '/':
+                    return toNumber(right) === 0 ? null : toNumber(left) / toNumber(right);
+                case '%':
+                    return toNumber(right) === 0 ? null : toNumber(left) % toNumber(right);
+            }
+            break;
+        case 'call':
+            return expressionFunctions[node.name].apply(null, node.args.map(x => evaluateNode(x, resolve)));
+    }
+    return void 0;
+}
+
+/**
+ * Convert a value to a number, where empty values are treated as zero.
+ */
+function toNumber(value: any): number {
+    var result = Number(value == null || value === '' ? 0 : value);
+    return isNaN(result) ? 0 : result;
+}
+
+/**
+ * Convert a value to a string, where empty values are treated as an empty string.
+ */
+function toText(value: any): string {
+    return value == null ? '' : String(value);
+}
+//#endregion
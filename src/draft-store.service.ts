@@ -0,0 +1,114 @@
+import { Injectable, Inject, Optional } from '@angular/core';
+
+import { FormDraft, FormDraftStore } from './models/form-draft';
+
+import debuglib from 'debug';
+const debug = debuglib('schema-ui:draft-store');
+
+/**
+ * Default prefix for the keys of drafts saved in the localStorage.
+ */
+const defaultStoragePrefix = 'schema-ui-draft:';
+
+/**
+ * Draft store that keeps the drafts in memory; drafts survive navigating away from a form, but not reloading the page.
+ */
+@Injectable()
+export class InMemoryDraftStore implements FormDraftStore {
+    /**
+     * All stored drafts by their key.
+     */
+    private drafts: { [key: string]: FormDraft } = {};
+
+    /**
+     * Store the given draft under the given key.
+     */
+    public save(key: string, draft: FormDraft): Promise<void> {
+        this.drafts[key] = draft;
+        return Promise.resolve();
+    }
+
+    /**
+     * Load the draft with the given key.
+     */
+    public load(key: string): Promise<FormDraft | null> {
+        return Promise.resolve(this.drafts[key] || null);
+    }
+
+    /**
+     * Remove the draft with the given key.
+     */
+    public remove(key: string): Promise<void> {
+        delete this.drafts[key];
+        return Promise.resolve();
+    }
+
+    /**
+     * Remove all stored drafts.
+     */
+    public clear(): void {
+        this.drafts = {};
+    }
+}
+
+/**
+ * Draft store that persists the drafts in the localStorage of the browser, so they survive reloads and crashed tabs.
+ */
+@Injectable()
+export class LocalStorageDraftStore implements FormDraftStore {
+    public constructor(
+        @Inject('draftStoragePrefix') @Optional() private prefix: string = defaultStoragePrefix,
+    ) { }
+
+    /**
+     * Store the given draft under the given key.
+     */
+    public save(key: string, draft: FormDraft): Promise<void> {
+        try {
+            this.storage().setItem(this.prefix + key, JSON.stringify(draft));
+            return Promise.resolve();
+        }
+        catch (e) {
+            debug(`[warn] unable to save the draft "${key}" to the localStorage`, e);
+            return Promise.reject(e);
+        }
+    }
+
+    /**
+     * Load the draft with the given key.
+     */
+    public load(key: string): Promise<FormDraft | null> {
+        try {
+            var serialized = this.storage().getItem(this.prefix + key);
+            return Promise.resolve(serialized == null ? null : JSON.parse(serialized) as FormDraft);
+        }
+        catch (e) {
+            debug(`[warn] unable to load the draft "${key}" from the localStorage`, e);
+            return Promise.reject(e);
+        }
+    }
+
+    /**
+     * Remove the draft with the given key.
+     */
+    public remove(key: string): Promise<void> {
+        try {
+            this.storage().removeItem(this.prefix + key);
+            return Promise.resolve();
+        }
+        catch (e) {
+            debug(`[warn] unable to remove the draft "${key}" from the localStorage`, e);
+            return Promise.reject(e);
+        }
+    }
+
+    /**
+     * Get the storage to save the drafts in.
+     */
+    private storage(): Storage {
+        if (typeof localStorage === 'undefined' || localStorage == null) {
+            throw new Error('The localStorage is not available in this environment; unable to store drafts.');
+        }
+        return localStorage;
+    }
+}
@@ -0,0 +1,46 @@
+import { PermissionFieldAccessPolicy } from './field-access-policy.service';
+
+describe('PermissionFieldAccessPolicy', () => {
+    var salary: any = { name: 'salary', pointer: '/salary', 'x-permissions': { read: ['employee', 'hr'], write: ['hr'], create: ['hr', 'hr-assistant'] } },
+        hinted: any = { name: 'notes', pointer: '/notes', field: { permissions: { read: ['hr'] } } },
+        plain: any = { name: 'name', pointer: '/name' };
+
+    it('hides fields the user cannot read in every mode', () => {
+        var policy = new PermissionFieldAccessPolicy(['guest']);
+
+        for (var mode of ['view', 'edit', 'create', 'copy'] as any[]) {
+            expect(policy.getAccess(salary, mode)).toBe('hidden');
+            expect(policy.getAccess(hinted, mode)).toBe('hidden');
+        }
+    });
+
+    it('uses the write permissions when editing, and the create permissions when creating or copying', () => {
+        var assistant = new PermissionFieldAccessPolicy(['employee', 'hr-assistant']);
+
+        expect(assistant.getAccess(salary, 'view')).toBe('readonly');
+        expect(assistant.getAccess(salary, 'edit')).toBe('readonly');
+        expect(assistant.getAccess(salary, 'create')).toBe('editable');
+        expect(assistant.getAccess(salary, 'copy')).toBe('editable');
+    });
+
+    it('makes readable fields readonly in view mode, and fields without annotations editable', () => {
+        var hr = new PermissionFieldAccessPolicy(['hr']);
+
+        expect(hr.getAccess(salary, 'view')).toBe('readonly');
+        expect(hr.getAccess(salary, 'edit')).toBe('editable');
+        expect(hr.getAccess(hinted, 'edit')).toBe('editable');
+        expect(hr.getAccess(plain, 'edit')).toBe('editable');
+    });
+
+    it('only emits when the permissions actually change', () => {
+        var policy = new PermissionFieldAccessPolicy(['hr', 'employee']),
+            emitted: string[][] = [];
+        policy.changed$.subscribe(x => emitted.push(x));
+
+        policy.setPermissions(['employee', 'hr']);
+        policy.setPermissions(['employee']);
+
+        expect(emitted).toEqual([['employee']]);
+        expect(policy.getAccess(salary, 'edit')).toBe('readonly');
+    });
+});
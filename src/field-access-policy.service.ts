@@ -0,0 +1,118 @@
+import { Injectable, Inject, InjectionToken, Optional } from '@angular/core';
+import { ExtendedFieldDescriptor } from 'json-schema-services';
+import { Subject } from 'rxjs';
+
+import { FieldAccessLevel, FieldAccessPolicy } from './models/field-access-policy';
+import { FormModes } from './models/form-field-context';
+
+import * as _ from 'lodash';
+
+/**
+ * The permissions required for a field, as set in the "x-permissions" annotation of a property in the schema.
+ *
+ * Every list contains the permissions of which the user should have at least one.
+ *
+ * @example { "read": ["employee", "hr"], "write": ["hr"], "create": ["hr", "hr-assistant"] }
+ */
+export interface FieldPermissionsAnnotation {
+    /**
+     * The permissions required to see the field.
+     */
+    read?: string[];
+
+    /**
+     * The permissions required to change the field.
+     */
+    write?: string[];
+
+    /**
+     * The permissions required to fill in the field when creating (or copying) an entity, defaults to the write permissions.
+     */
+    create?: string[];
+}
+
+/**
+ * Token to provide the permissions of the current user with, as used by the PermissionFieldAccessPolicy.
+ */
+export const userPermissionsToken = new InjectionToken<string[]>('UserPermissions');
+
+/**
+ * Field access policy that compares the "x-permissions" annotations of fields, with the permissions of the current user.
+ *
+ * Fields without annotations are editable.
+ */
+@Injectable()
+export class PermissionFieldAccessPolicy implements FieldAccessPolicy {
+    /**
+     * An observable that emits when the permissions of the user change.
+     */
+    public readonly changed$: Subject<string[]> = new Subject();
+
+    /**
+     * The permissions of the current user.
+     */
+    public get permissions(): ReadonlyArray<string> {
+        return this._permissions;
+    }
+    private _permissions: string[];
+
+    /**
+     * @param permissions The permissions of the current user.
+     */
+    public constructor(
+        @Inject(userPermissionsToken) @Optional() permissions?: string[],
+    ) {
+        this._permissions = Array.isArray(permissions) ? permissions.slice() : [];
+    }
+
+    /**
+     * Change the permissions of the current user, forms using this policy will apply the new permissions.
+     */
+    public setPermissions(permissions: string[]): void {
+        var next = Array.isArray(permissions) ? _.uniq(permissions) : [];
+        if (_.isEqual(_.sortBy(next), _.sortBy(this._permissions))) {
+            return;
+        }
+
+        this._permissions = next;
+        this.changed$.next(next);
+    }
+
+    /**
+     * Get the access the current user has to the given field.
+     */
+    public getAccess(field: ExtendedFieldDescriptor, mode: FormModes): FieldAccessLevel {
+        var annotation = this.getAnnotation(field);
+        if (annotation == null) {
+            return 'editable';
+        }
+
+        if (!this.hasOneOf(annotation.read)) {
+            return 'hidden';
+        }
+        if (mode === 'view') {
+            return 'readonly';
+        }
+
+        var write = (mode === 'create' || mode === 'copy') && annotation.create != null ? annotation.create : annotation.write;
+        return this.hasOneOf(write) ? 'editable' : 'readonly';
+    }
+
+    /**
+     * Get the permissions annotation of the field, if it has one.
+     */
+    protected getAnnotation(field: ExtendedFieldDescriptor): FieldPermissionsAnnotation | null {
+        var annotation: any = (field as any)['x-permissions'];
+        if (annotation == null && !!field.field) {
+            annotation = (field.field as any).permissions;
+        }
+        return _.isPlainObject(annotation) ? annotation : null;
+    }
+
+    /**
+     * Whether the user has one of the given permissions (or no permissions are required).
+     */
+    private hasOneOf(required?: string[]): boolean {
+        return !Array.isArray(required) || required.some(x => this._permissions.indexOf(x) > -1);
+    }
+}
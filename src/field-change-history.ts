@@ -0,0 +1,149 @@
+import { Subject } from 'rxjs';
+
+import { FieldContextProvider } from './field-context-provider.service';
+
+/**
+ * Default maximum number of changes kept on the undo stack.
+ */
+const defaultHistoryLimit = 100;
+
+/**
+ * Keeps track of the value changes of all fields in a form (including child contexts), so they can be undone and redone.
+ *
+ * One instance is shared between a field context provider and all the child contexts created from it.
+ */
+export class FieldChangeHistory {
+    /**
+     * Changes that can be undone, the most recent change is the last item.
+     */
+    private undoStack: FieldChangeHistoryEntry[] = [];
+
+    /**
+     * Changes that were undone and can be redone, the most recently undone change is the last item.
+     */
+    private redoStack: FieldChangeHistoryEntry[] = [];
+
+    /**
+     * An observable that emits the history itself every time the undo or redo stack is altered.
+     */
+    public changed$: Subject<FieldChangeHistory> = new Subject();
+
+    /**
+     * @param limit The maximum number of changes to remember.
+     */
+    public constructor(public limit: number = defaultHistoryLimit) { }
+
+    /**
+     * Whether or not there are any changes that can be undone.
+     */
+    public canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    /**
+     * Whether or not there are any undone changes that can be redone.
+     */
+    public canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * Get a copy of the list of changes that can be undone, oldest first.
+     */
+    public entries(): FieldChangeHistoryEntry[] {
+        return this.undoStack.slice();
+    }
+
+    /**
+     * Record a new change, this invalidates any changes that could be redone.
+     *
+     * @param entry The change to record.
+     */
+    public record(entry: FieldChangeHistoryEntry): void {
+        this.undoStack.push(entry);
+        if (this.undoStack.length > this.limit) {
+            this.undoStack.splice(0, this.undoStack.length - this.limit);
+        }
+        this.redoStack = [];
+        this.changed$.next(this);
+    }
+
+    /**
+     * Take the most recent change from the undo stack, and move it to the redo stack.
+     *
+     * @return The change that should be undone, or undefined if there is nothing to undo.
+     */
+    public undo(): FieldChangeHistoryEntry | undefined {
+        var entry = this.undoStack.pop();
+        if (entry != null) {
+            this.redoStack.push(entry);
+            this.changed$.next(this);
+        }
+        return entry;
+    }
+
+    /**
+     * Take the most recently undone change from the redo stack, and move it back to the undo stack.
+     *
+     * @return The change that should be redone, or undefined if there is nothing to redo.
+     */
+    public redo(): FieldChangeHistoryEntry | undefined {
+        var entry = this.redoStack.pop();
+        if (entry != null) {
+            this.undoStack.push(entry);
+            this.changed$.next(this);
+        }
+        return entry;
+    }
+
+    /**
+     * Remove all changes that were made in the given context (e.g. because it was destroyed or reset).
+     *
+     * @param context The field context provider to forget the changes of.
+     */
+    public forget(context: FieldContextProvider): void {
+        var undoLength = this.undoStack.length,
+            redoLength = this.redoStack.length;
+
+        this.undoStack = this.undoStack.filter(x => x.context !== context);
+        this.redoStack = this.redoStack.filter(x => x.context !== context);
+
+        if (undoLength !== this.undoStack.length || redoLength !== this.redoStack.length) {
+            this.changed$.next(this);
+        }
+    }
+
+    /**
+     * Forget about all recorded changes.
+     */
+    public clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.changed$.next(this);
+    }
+}
+
+/**
+ * A single recorded value change for a field.
+ */
+export interface FieldChangeHistoryEntry {
+    /**
+     * The field context provider the changed field belongs to.
+     */
+    context: FieldContextProvider;
+
+    /**
+     * The JSON-Pointer of the field that changed.
+     */
+    pointer: string;
+
+    /**
+     * The value of the field before the change.
+     */
+    oldValue: any;
+
+    /**
+     * The value of the field after the change.
+     */
+    newValue: any;
+}
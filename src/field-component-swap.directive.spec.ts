@@ -0,0 +1,63 @@
+import { SimpleChanges } from '@angular/core';
+
+import { FieldComponentSwitchDirective } from './field-component-swap.directive';
+
+/**
+ * Create a directive that rendered a component with the given inputs, without going through the component creation.
+ */
+function createDirective(instance: any, inputs: string[]): any {
+    var directive: any = Object.create(FieldComponentSwitchDirective.prototype);
+    directive.appliedInputs = {};
+    directive.defaultInputs = {};
+    directive.componentRef = { instance };
+    directive.factory = { inputs: inputs.map(x => ({ propName: x, templateName: x })) };
+    return directive;
+}
+
+describe('FieldComponentSwitchDirective', () => {
+    var context: any = { meta: { field: { options: { rows: 5 } } } };
+
+    it('passes the changed inputs to ngOnChanges', () => {
+        var changes: SimpleChanges[] = [],
+            instance = { rows: 3, label: 'Default', ngOnChanges: (x: SimpleChanges) => changes.push(x) },
+            directive = createDirective(instance, ['rows', 'label']);
+
+        directive.fieldSwitchInputs = { label: 'Name' };
+        expect(directive.updateInputs(context)).toBe(true);
+        expect(instance.rows).toBe(5);
+        expect(changes.length).toBe(1);
+        expect(changes[0].rows.previousValue).toBe(3);
+        expect(changes[0].rows.currentValue).toBe(5);
+        expect(changes[0].rows.firstChange).toBe(true);
+        expect(changes[0].label.currentValue).toBe('Name');
+
+        expect(directive.updateInputs(context)).toBe(false);
+        expect(changes.length).toBe(1);
+
+        directive.fieldSwitchInputs = { label: 'Title' };
+        expect(directive.updateInputs(context)).toBe(true);
+        expect(Object.keys(changes[1])).toEqual(['label']);
+        expect(changes[1].label.previousValue).toBe('Name');
+        expect(changes[1].label.firstChange).toBe(false);
+    });
+
+    it('resets inputs that are no longer given', () => {
+        var changes: SimpleChanges[] = [],
+            instance = { rows: 3, label: 'Default', ngOnChanges: (x: SimpleChanges) => changes.push(x) },
+            directive = createDirective(instance, ['rows', 'label']);
+
+        directive.fieldSwitchInputs = { label: 'Name' };
+        directive.updateInputs(context);
+
+        directive.fieldSwitchInputs = {};
+        expect(directive.updateInputs(context)).toBe(true);
+        expect(instance.label).toBe('Default');
+        expect(changes[1].label.currentValue).toBe('Default');
+        expect(directive.appliedInputs).toEqual({ rows: 5 });
+
+        // An input that is given again is applied again.
+        directive.fieldSwitchInputs = { label: 'Name' };
+        expect(directive.updateInputs(context)).toBe(true);
+        expect(instance.label).toBe('Name');
+    });
+});
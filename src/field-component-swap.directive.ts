@@ -6,8 +6,10 @@ import {
     Type,
     OnInit,
     OnDestroy,
+    DoCheck,
 
     ComponentRef,
+    ComponentFactory,
     ViewContainerRef,
     TemplateRef,
 
@@ -17,6 +19,9 @@ import {
     Injector,
     Inject,
     InjectionToken,
+    OnChanges,
+    SimpleChange,
+    SimpleChanges,
 } from '@angular/core';
 import { IRelatableSchemaAgent } from 'json-schema-services';
 import { Subscription } from 'rxjs';
@@ -24,9 +29,12 @@ import { debounceTime } from 'rxjs/operators';
 
 import { FormField } from './models/form-field';
 import { FieldComponentContext, fieldComponentContextToken } from './models/form-field-context';
+import { FieldTemplateSlots, FieldTemplateSlotMap, fieldTemplateSlotsToken } from './models/field-template-slots';
+import { FormFieldWrapper, FieldWrapperRegistration, fieldViewModelToken } from './models/field-wrapper';
+import { FieldFallbackWarning } from './models/field-fallback';
 import { LinkedDataProvider } from './linked-data-provider.service';
 import { FormFieldService } from './form-field.service';
-import { FieldContextProvider } from './field-context-provider.service';
+import { FieldContextProvider, FormFieldViewModel } from './field-context-provider.service';
 import { CachedDataProvider } from './cached-data-provider.service';
 
 import debuglib from 'debug';
@@ -40,12 +48,12 @@ export const formFieldDescriptorToken = new InjectionToken('ExtendedFieldDescrip
 /**
  * Outlet for components to be loaded in.
  *
- * <ng-template [fieldComponentSwapper]="field.ctx" [swapCmpBindings]="fieldBindings" [swapCmpProjectables]="ctx.projectableNodes"></ng-template>
+ * <ng-template [fieldSwitch]="field.ctx" [fieldSwitchBindings]="fieldBindings" [fieldSwitchProjectables]="projectableNodes" [fieldSwitchSlots]="{ prefix: prefixTpl }"></ng-template>
  */
 @Directive({
     selector: '[fieldSwitch]'
 })
-export class FieldComponentSwitchDirective<T extends FormField<any>> implements OnInit, OnDestroy {
+export class FieldComponentSwitchDirective<T extends FormField<any>> implements OnInit, OnDestroy, DoCheck {
     /**
      * Component that is loaded.
      */
@@ -56,16 +64,56 @@ export class FieldComponentSwitchDirective<T extends FormField<any>> implements
      */
     private componentRef: ComponentRef<T>;
 
+    /**
+     * References to the wrappers rendered around the field component, from the outermost to the innermost wrapper.
+     */
+    private wrapperRefs: ComponentRef<FormFieldWrapper>[] = [];
+
+    /**
+     * Factory of the loaded field component, used to look up it's inputs and outputs.
+     */
+    private factory: ComponentFactory<T>;
+
+    /**
+     * The values that were last copied onto the inputs of the field component, by property name.
+     */
+    private appliedInputs: { [propName: string]: any } = {};
+
+    /**
+     * The values the inputs of the field component had before they were first set, used to reset inputs that are no longer given.
+     */
+    private defaultInputs: { [propName: string]: any } = {};
+
+    /**
+     * Subscriptions on the outputs of the field component.
+     */
+    private outputSubscriptions: Subscription[] = [];
+
     /**
      * Reference to the set context.
      */
     private context: FieldComponentContext;
 
+    /**
+     * The template slots that are provided to the field component.
+     */
+    private slots: FieldTemplateSlots = new FieldTemplateSlots();
+
     /**
      * Change subscriber for the field context provider, if assigned.
      */
     private changeSubscriber: Subscription;
 
+    /**
+     * Mode change subscriber for the field context provider, to start or stop notifying it of changes.
+     */
+    private modeSubscriber: Subscription;
+
+    /**
+     * The context for which the field component is being loaded (for fields that are loaded on demand).
+     */
+    private loadingContext: FieldComponentContext;
+
     /**
      * Property that is flipped once ngOninit is called.
      *
@@ -86,10 +134,52 @@ export class FieldComponentSwitchDirective<T extends FormField<any>> implements
     public fieldSwitchBindings: ResolvedReflectiveProvider[] = [ ];
 
     /**
-     * (Optionally) List of renderer elements to render inside the new component.
+     * (Optionally) List of DOM nodes to project into the ng-content slots of the new component (one list per slot).
+     *
+     * Only used when the component is created; changing it afterwards has no effect until the field type changes.
+     */
+    @Input()
+    public fieldSwitchProjectables: any[][];
+
+    /**
+     * (Optionally) Named templates that the field component can render, e.g. labels or prefix/suffix adornments.
+     *
+     * Field components can inject them using the fieldTemplateSlotsToken.
      */
-    //@Input()
-    //public fieldSwitchProjectables: any[][];
+    @Input()
+    public set fieldSwitchSlots(slots: FieldTemplateSlotMap) {
+        this.slots.set(slots);
+    }
+
+    /**
+     * (Optionally) Template to show while the component of a field that is loaded on demand is being loaded.
+     *
+     * When not set, the template of this directive is rendered with "loading" set to true in it's context.
+     */
+    @Input()
+    public fieldSwitchLoadingTemplate: TemplateRef<any>;
+
+    /**
+     * (Optionally) Values for the inputs of the field component, these override the "options" of the field in the schema.
+     *
+     * Inputs are updated on every change detection cycle, without recreating the component.
+     */
+    @Input()
+    public fieldSwitchInputs: { [input: string]: any };
+
+    /**
+     * (Optionally) Handlers for the outputs of the field component, by output name.
+     */
+    @Input()
+    public fieldSwitchOutputs: { [output: string]: (event: any) => void };
+
+    /**
+     * (Optionally) The names of the wrappers to render around the field, instead of the wrappers registered for it's field type or fieldset.
+     *
+     * Set it to an empty array to render the field without wrappers.
+     */
+    @Input()
+    public fieldSwitchWrappers: string[];
 
     /**
      * (Optionally) An fieldContextProvider instance to automatically update with formField events.
@@ -113,7 +203,7 @@ export class FieldComponentSwitchDirective<T extends FormField<any>> implements
         }
 
         // If the same context was set again, ignore.
-        if (this.context === context) {
+        if (this.context === context || this.loadingContext === context) {
             return;
         }
 
@@ -135,16 +225,22 @@ export class FieldComponentSwitchDirective<T extends FormField<any>> implements
     /**
      * Apply and initialize a new field context for this directive.
      * @param context
+     * @param component (Optional) The component to create, instead of the one registered for the field type (e.g. a loaded or fallback component).
      */
-    private applyFieldContextChange(context: FieldComponentContext): void {
+    private applyFieldContextChange(context: FieldComponentContext, component?: Type<T>): void {
         // Refresh/get the component to initialize based on the meta-data (if we didnt already).
-        if (!this.component || (!!this.context && this.context.meta.field.type !== context.meta.field.type)) {
+        if (!!component) {
+            this.component = component;
+        }
+        else if (!this.component || (!!this.context && this.context.meta.field.type !== context.meta.field.type)) {
             this.component = this.fields.getFieldComponentByName<T>(context.meta.field.type, this.fieldSwitchInjector || this.vcRef.injector);
             if (!this.component) {
-                this.error(`Component could not be found for field.type "${context.meta.field.type}".`);
+                // The component may still have to be loaded.
+                this.loadFieldComponent(context);
                 return;
             }
         }
+        this.loadingContext = null;
 
         // Collect bindings for the injector.
         let bindings: ResolvedReflectiveProvider[];
@@ -156,6 +252,9 @@ export class FieldComponentSwitchDirective<T extends FormField<any>> implements
                 // Provide the form field context as provided to this binding.
                 { provide: fieldComponentContextToken, useValue: context },
 
+                // Provide the named templates the field can render.
+                { provide: fieldTemplateSlotsToken, useValue: this.slots },
+
                 // Provide the form field with an helper to retrieve linked field data.
                 {
                     provide: LinkedDataProvider,
@@ -196,12 +295,21 @@ export class FieldComponentSwitchDirective<T extends FormField<any>> implements
         // Everything went o.k., we can clear the error message.
         this.vcRef.clear();
 
+        // Render the wrappers, the field is created in the innermost one.
+        var container = this.createWrappers(context, injector);
+        if (container == null) {
+            return;
+        }
+
         // Create the component instance.
-        this.componentRef = this.vcRef.createComponent<T>(
+        this.factory = factory;
+        this.appliedInputs = {};
+        this.defaultInputs = {};
+        this.componentRef = container.createComponent<T>(
             factory,
-            this.vcRef.length,
+            container.length,
             injector,
-            //this.swapCmpProjectables
+            Array.isArray(this.fieldSwitchProjectables) ? this.fieldSwitchProjectables : void 0,
         );
         debug(`fieldSwitch(): Created ref for field with id "${context.id}".`);
 
@@ -215,8 +323,13 @@ export class FieldComponentSwitchDirective<T extends FormField<any>> implements
             this.context = null;
             this.componentRef = null;
             this.component = null;
+            this.unsubscribeOutputs();
         });
 
+        // Set the inputs and listen to the outputs, before the component is initialized.
+        this.updateInputs(context);
+        this.subscribeOutputs();
+
         // Make sure the change detection cycle is started.
         this.componentRef.changeDetectorRef.detectChanges();
 
@@ -232,6 +345,226 @@ export class FieldComponentSwitchDirective<T extends FormField<any>> implements
         this.context = context;
     }
 
+    /**
+     * Create the wrappers for the field, each in the container of the previous one.
+     *
+     * @return The container to create the field component in, or null if a wrapper could not be created.
+     */
+    private createWrappers(context: FieldComponentContext, injector: Injector): ViewContainerRef | null {
+        this.wrapperRefs = [];
+
+        var model = this.getFieldViewModel(context),
+            wrappers = this.getWrappers(model),
+            container = this.vcRef;
+        if (wrappers.length === 0) {
+            return container;
+        }
+
+        var wrapperInjector = ReflectiveInjector.resolveAndCreate([{ provide: fieldViewModelToken, useValue: model }], injector);
+        for (var wrapper of wrappers) {
+            try {
+                var ref = container.createComponent(this.cfr.resolveComponentFactory(wrapper.component), container.length, wrapperInjector);
+                ref.changeDetectorRef.detectChanges();
+            }
+            catch (e) {
+                this.vcRef.clear();
+                this.error(`Unable to create the field wrapper "${wrapper.name}" for field "${context.id}".`, e);
+                return null;
+            }
+
+            this.wrapperRefs.push(ref);
+            if (ref.instance.fieldContainer == null) {
+                this.vcRef.clear();
+                this.error(`The field wrapper "${wrapper.name}" does not have a fieldContainer to create the field in.`);
+                return null;
+            }
+            container = ref.instance.fieldContainer;
+        }
+        return container;
+    }
+
+    /**
+     * Get the wrappers to render around the field, from the outermost to the innermost wrapper.
+     */
+    private getWrappers(model: FormFieldViewModel<FormField<any>>): FieldWrapperRegistration[] {
+        if (Array.isArray(this.fieldSwitchWrappers)) {
+            return this.fields.getWrappersByNames(this.fieldSwitchWrappers);
+        }
+
+        var fieldset = !!this.fieldSwitchContextProvider ? this.fieldSwitchContextProvider.sets.find(x => x.fields.indexOf(model) > -1) : void 0;
+        return this.fields.getFieldWrappers(model, fieldset);
+    }
+
+    /**
+     * Get the view model of the field from the field context provider, or create one for the context if there is no provider.
+     */
+    private getFieldViewModel(context: FieldComponentContext): FormFieldViewModel<FormField<any>> {
+        var model = !!this.fieldSwitchContextProvider ? this.fieldSwitchContextProvider.findByPointer(context.pointer) : null;
+        if (model != null) {
+            return model;
+        }
+
+        return {
+            label: (!!context.meta && context.meta.title) || context.name,
+            description: !!context.meta ? context.meta.description : void 0,
+            validation: FieldContextProvider.createPristineFieldvalidationResult(),
+            visible: true,
+            instance: void 0,
+            ctx: context,
+        };
+    }
+
+    /**
+     * Copy the input values (the options of the field in the schema, overridden by fieldSwitchInputs) onto the inputs of the component.
+     *
+     * Inputs that are no longer given are reset to the value they had before they were set, and the changes are passed to ngOnChanges of the component.
+     *
+     * @return Whether any of the inputs changed.
+     */
+    private updateInputs(context: FieldComponentContext): boolean {
+        if (!this.componentRef || !this.factory || !context) {
+            return false;
+        }
+
+        var instance: any = this.componentRef.instance,
+            values: { [input: string]: any } = {
+                ...((!!context.meta && !!context.meta.field && (context.meta.field as any).options) || {}),
+                ...(this.fieldSwitchInputs || {}),
+            },
+            changes: SimpleChanges = {},
+            changed = false;
+        for (var input of this.factory.inputs) {
+            var name = values.hasOwnProperty(input.templateName) ? input.templateName : input.propName,
+                applied = this.appliedInputs.hasOwnProperty(input.propName),
+                firstChange = !this.defaultInputs.hasOwnProperty(input.propName),
+                previous = instance[input.propName],
+                value: any;
+
+            if (values.hasOwnProperty(name)) {
+                if (applied && this.appliedInputs[input.propName] === values[name]) {
+                    continue;
+                }
+                if (firstChange) {
+                    this.defaultInputs[input.propName] = previous;
+                }
+                value = this.appliedInputs[input.propName] = values[name];
+            }
+            else if (applied) {
+                // The input was removed from the options or fieldSwitchInputs.
+                value = this.defaultInputs[input.propName];
+                delete this.appliedInputs[input.propName];
+            }
+            else {
+                continue;
+            }
+
+            instance[input.propName] = value;
+            changes[input.propName] = new SimpleChange(previous, value, firstChange);
+            changed = true;
+        }
+
+        if (changed && typeof (instance as OnChanges).ngOnChanges === 'function') {
+            (instance as OnChanges).ngOnChanges(changes);
+        }
+        return changed;
+    }
+
+    /**
+     * Forward the outputs of the component to the handlers in fieldSwitchOutputs.
+     */
+    private subscribeOutputs(): void {
+        this.unsubscribeOutputs();
+        this.factory.outputs.forEach(output => {
+            var emitter = (this.componentRef.instance as any)[output.propName];
+            if (emitter == null || typeof emitter.subscribe !== 'function') {
+                return;
+            }
+
+            // The handler is looked up on emit, so the handlers can be changed without resubscribing.
+            this.outputSubscriptions.push(emitter.subscribe((event: any) => {
+                var handler = !!this.fieldSwitchOutputs ? this.fieldSwitchOutputs[output.templateName] || this.fieldSwitchOutputs[output.propName] : null;
+                if (typeof handler === 'function') {
+                    handler(event);
+                }
+            }));
+        });
+    }
+
+    /**
+     * Stop forwarding the outputs of the component.
+     */
+    private unsubscribeOutputs(): void {
+        for (var subscription of this.outputSubscriptions) {
+            subscription.unsubscribe();
+        }
+        this.outputSubscriptions = [];
+    }
+
+    /**
+     * Show the loading state, and load the component for the given context.
+     */
+    private loadFieldComponent(context: FieldComponentContext): void {
+        this.loadingContext = context;
+        this.vcRef.clear();
+        if (!!this.fieldSwitchLoadingTemplate) {
+            this.vcRef.createEmbeddedView<any>(this.fieldSwitchLoadingTemplate, { loading: true });
+        }
+        else {
+            this.vcRef.createEmbeddedView<any>(this.tRef, { loading: true });
+        }
+
+        this.fields.loadFieldComponentByName<T>(context.meta.field.type, this.fieldSwitchInjector || this.vcRef.injector)
+            .catch(err => {
+                debug(`[warn] loading the component for field.type "${context.meta.field.type}" failed, trying the fallback fields`, err);
+                return null;
+            })
+            .then(component => component != null ? component : this.loadFallbackComponent(context))
+            .then(component => {
+                // Ignore the result if the directive was destroyed, or another field was set in the meantime.
+                if (this.loadingContext !== context) {
+                    return;
+                }
+                this.vcRef.clear();
+                this.loadingContext = null;
+                if (!component) {
+                    this.error(`Component could not be found for field.type "${context.meta.field.type}".`);
+                    return;
+                }
+
+                this.applyFieldContextChange(context, component);
+            })
+            .catch(err => {
+                if (this.loadingContext !== context) {
+                    return;
+                }
+                this.vcRef.clear();
+                this.loadingContext = null;
+                this.error(`Unable to load the component for field.type "${context.meta.field.type}".`, err);
+            });
+    }
+
+    /**
+     * Load the first available component in the fallback chain for the field, and log a warning when one is found.
+     */
+    private loadFallbackComponent(context: FieldComponentContext): Promise<Type<T> | null> {
+        return this.fields.loadFallbackFieldComponent<T>(context.meta, this.fieldSwitchInjector || this.vcRef.injector).then(result => {
+            if (result == null) {
+                return null;
+            }
+
+            var warning: FieldFallbackWarning = {
+                fieldId: context.id,
+                pointer: context.pointer,
+                fieldType: context.meta.field.type,
+                fallbackType: result.fieldType,
+                source: result.source,
+                tried: result.tried,
+            };
+            debug(`[warn] using fallback field "${result.fieldType}" for field.type "${context.meta.field.type}"`, warning);
+            return result.component;
+        });
+    }
+
     /**
      * Subscribe to change events, in order to notify the context.
      */
@@ -252,17 +585,35 @@ export class FieldComponentSwitchDirective<T extends FormField<any>> implements
         // Inform the context of use being ready.
         this.fieldSwitchContextProvider.fieldReady$.next(model);
 
-        // Subscribe to value changes in edit-mode
-        if (this.fieldSwitchContextProvider.isEditMode) {
-            // Setup a subscriber that listens to new values, and notifies the context.
-            this.changeSubscriber = this.componentRef.instance.changed
-                .pipe(debounceTime(500))
-                .subscribe((): void => {
-                    if (!!this.fieldSwitchContextProvider && this.fieldSwitchContextProvider.fieldChanged$) {
-                        this.fieldSwitchContextProvider.fieldChanged$.next(model);
-                    }
-                });
+        // Subscribe to value changes in edit-mode, and start or stop doing so when the mode changes.
+        this.updateChangeSubscription(model);
+        this.modeSubscriber = this.fieldSwitchContextProvider.modeChanged$
+            .subscribe(() => this.updateChangeSubscription(model));
+    }
+
+    /**
+     * Subscribe to value changes when the field context provider is in edit-mode, or unsubscribe when it is not.
+     */
+    private updateChangeSubscription(model: FormFieldViewModel<FormField<any>>): void {
+        if (!this.fieldSwitchContextProvider.isEditMode()) {
+            if (this.changeSubscriber) {
+                this.changeSubscriber.unsubscribe();
+                this.changeSubscriber = void 0;
+            }
+            return;
+        }
+        if (this.changeSubscriber || !this.componentRef) {
+            return;
         }
+
+        // Setup a subscriber that listens to new values, and notifies the context.
+        this.changeSubscriber = this.componentRef.instance.changed
+            .pipe(debounceTime(500))
+            .subscribe((): void => {
+                if (!!this.fieldSwitchContextProvider && this.fieldSwitchContextProvider.fieldChanged$) {
+                    this.fieldSwitchContextProvider.fieldChanged$.next(model);
+                }
+            });
     }
 
     /**
@@ -273,6 +624,10 @@ export class FieldComponentSwitchDirective<T extends FormField<any>> implements
             this.changeSubscriber.unsubscribe();
             this.changeSubscriber = void 0;
         }
+        if (this.modeSubscriber) {
+            this.modeSubscriber.unsubscribe();
+            this.modeSubscriber = void 0;
+        }
     }
 
     /**
@@ -283,16 +638,31 @@ export class FieldComponentSwitchDirective<T extends FormField<any>> implements
         this.applyFieldContextChange(this.context);
     }
 
+    /**
+     * Called on every change detection cycle, updates the inputs of the field component.
+     */
+    public ngDoCheck(): void {
+        if (this.updateInputs(this.context)) {
+            this.componentRef.changeDetectorRef.markForCheck();
+        }
+    }
+
     /**
      * Called when this component get's destroyed.
      */
     public ngOnDestroy(): void {
+        this.loadingContext = null;
         if (!!this.componentRef) {
             // If our child still exists, destroy it too.
             this.componentRef.destroy();
             this.componentRef = null;
         }
+        for (var wrapper of this.wrapperRefs) {
+            wrapper.destroy();
+        }
+        this.wrapperRefs = [];
         this.unsubscribeForFieldContext();
+        this.unsubscribeOutputs();
     }
 
     /**
@@ -300,7 +670,6 @@ export class FieldComponentSwitchDirective<T extends FormField<any>> implements
      */
     protected error(message: string, data?: any): void {
         debug('[warn] ' + message, data);
-        console.warn('FieldComponentDirective: ' + message);
         this.onCreate.emit(null);
         this.onCreate.error(message);
         this.vcRef.createEmbeddedView<any>(this.tRef, { errorMessage: message });
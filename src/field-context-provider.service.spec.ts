@@ -0,0 +1,200 @@
+import { FieldContextProvider } from './field-context-provider.service';
+import { FieldAccessPolicy } from './models/field-access-policy';
+
+/**
+ * Create a form for an object schema with the given properties, using a minimal schema navigator.
+ *
+ * @param properties The schemas of the properties of the object.
+ * @param initialValues The initial values of the form.
+ * @param accessPolicy (Optional) The field access policy of the form.
+ * @param validate (Optional) Method that validates the data of the whole form.
+ */
+function createProvider(properties: { [name: string]: any }, initialValues: any, accessPolicy?: FieldAccessPolicy, validate?: (data: any) => any): FieldContextProvider {
+    var fields = Object.keys(properties).map(name => ({ ...properties[name], name, pointer: '/' + name, field: { ...(properties[name].field || {}) } })),
+        schema: any = {
+            schemaId: 'test',
+            entity: 'test',
+            propertyPrefix: '/',
+            identityProperties: [],
+            original: { id: 'test', type: 'object', properties },
+            fieldsets: { main: fields },
+            getFieldTitle: (name: string) => name,
+            getFieldDescription: (): string => void 0,
+            getFieldDescriptorForPointer: (pointer: string) => fields.filter(x => x.pointer === pointer),
+            getIdentityValue: (): any => null,
+        },
+        validator = {
+            validate: validate || (() => ({ valid: true, errors: [] as any[] })),
+            validatePointer: () => ({ valid: true, errors: [] as any[] }),
+        },
+        validators: any = { getValidator: () => Promise.resolve(validator) },
+        cache: any = { getSchema: (): any => null };
+
+    return new FieldContextProvider(schema, cache, validators, 'edit', initialValues, void 0, void 0, void 0, void 0, void 0, void 0, void 0, accessPolicy);
+}
+
+describe('FieldContextProvider', () => {
+    var provider: FieldContextProvider;
+
+    afterEach(() => provider.destroy());
+
+    describe('with a field access policy', () => {
+        var policy: FieldAccessPolicy = { getAccess: field => field.name === 'salary' ? 'hidden' : 'editable' },
+            properties = { name: { type: 'string' }, salary: { type: 'integer' } };
+
+        it('leaves the values of hidden fields out of the data', () => {
+            provider = createProvider(properties, { name: 'Jane', salary: 10 }, policy);
+
+            expect(provider.getData()).toEqual({ name: 'Jane' });
+        });
+
+        it('leaves hidden fields out of the patch operations', () => {
+            provider = createProvider(properties, { name: 'Jane', salary: 10 }, policy);
+            provider.findByPointer('/name').ctx.value = 'John';
+
+            // Hidden fields are not part of the visible fieldsets.
+            expect(provider.findByPointer('/salary')).toBeNull();
+            provider.each(field => field.ctx.pointer === '/salary' ? field.ctx.value = 20 : null);
+
+            expect(provider.getPatchOperations(false)).toEqual([{ op: 'replace', path: '/name', value: 'John' } as any]);
+        });
+
+        it('validates the form including the values of hidden fields', done => {
+            var validate = jasmine.createSpy('validate').and.returnValue({ valid: true, errors: [] as any[] });
+            provider = createProvider(properties, { name: 'Jane', salary: 10 }, policy, validate);
+
+            provider.validate().then(() => {
+                expect(validate).toHaveBeenCalledWith({ name: 'Jane', salary: 10 });
+                done();
+            });
+        });
+    });
+
+    describe('array items', () => {
+        var properties = {
+            lines: { type: 'array', items: { type: 'object', properties: { product: { type: 'string' } }, default: { product: 'new' } } },
+        };
+
+        /**
+         * Register a fake child context for the given pointer, as created for an item (or a field nested in an item).
+         */
+        function addChild(pointer: string): any {
+            var context: any = { destroy: jasmine.createSpy('destroy').and.callFake(() => (provider as any).removeChild(context)) };
+            (provider as any).children.push({ pointer, prefix: pointer, context, field: null, isNew: false });
+            return context;
+        }
+
+        function childPointers(): string[] {
+            return (provider as any).children.map((x: any) => x.pointer + ' ' + x.prefix);
+        }
+
+        beforeEach(() => {
+            provider = createProvider(properties, { lines: [{ product: 'a' }, { product: 'b' }, { product: 'c' }, { product: 'd' }] });
+        });
+
+        it('re-indexes the existing item contexts when an item is added', () => {
+            addChild('/lines/1');
+            addChild('/lines/3/product');
+
+            expect(provider.addItem('/lines', void 0, 1)).toBe(1);
+            expect(childPointers()).toEqual(['/lines/2 /lines/2', '/lines/4/product /lines/4/product']);
+            expect(provider.getData().lines[1]).toEqual({ product: 'new' });
+        });
+
+        it('destroys the contexts of a removed item, including the nested ones, and re-indexes the others', () => {
+            var removed = addChild('/lines/1'),
+                nested = addChild('/lines/1/product'),
+                other = addChild('/lines/3/product');
+
+            expect(provider.removeItem('/lines', 1)).toEqual({ product: 'b' });
+            expect(removed.destroy).toHaveBeenCalled();
+            expect(nested.destroy).toHaveBeenCalled();
+            expect(other.destroy).not.toHaveBeenCalled();
+            expect(childPointers()).toEqual(['/lines/2/product /lines/2/product']);
+        });
+
+        it('re-indexes the item contexts when an item is moved', () => {
+            addChild('/lines/0');
+            addChild('/lines/2/product');
+            addChild('/lines/3');
+
+            provider.moveItem('/lines', 0, 2);
+            expect(childPointers()).toEqual(['/lines/2 /lines/2', '/lines/1/product /lines/1/product', '/lines/3 /lines/3']);
+            expect(provider.getData().lines.map((x: any) => x.product)).toEqual(['b', 'c', 'a', 'd']);
+        });
+
+        it('leaves the prefix of inlined child contexts empty', () => {
+            var context = { destroy: jasmine.createSpy('destroy') };
+            (provider as any).children.push({ pointer: '/lines/3/product', prefix: '', context, field: null, isNew: false });
+
+            provider.removeItem('/lines', 0);
+            expect(childPointers()).toEqual(['/lines/2/product ']);
+        });
+
+        it('creates patch operations for the items of a field that is not initialized', () => {
+            provider.addItem('/lines', { product: 'e' });
+            expect(provider.getPatchOperations(false)).toEqual([{ op: 'add', path: '/lines/-', value: { product: 'e' } } as any]);
+
+            provider.removeItem('/lines', 0);
+            expect(provider.getPatchOperations(false)).toEqual([
+                { op: 'remove', path: '/lines/0' },
+                { op: 'add', path: '/lines/-', value: { product: 'e' } },
+            ] as any[]);
+            expect(provider.isDirty()).toBe(true);
+        });
+
+        it('throws for items that do not exist', () => {
+            expect(() => provider.removeItem('/lines', 4)).toThrowError(/only has 4 items/);
+            expect(() => provider.moveItem('/lines', 0, 4)).toThrowError(/only has 4 items/);
+            expect(() => provider.addItem('/unknown')).toThrowError(/is not an array/);
+        });
+    });
+
+    describe('fields with variants', () => {
+        var properties = {
+            payment: {
+                oneOf: [
+                    { title: 'Card', type: 'object', properties: { method: { const: 'card' }, number: { type: 'string' } } },
+                    { title: 'Bank', type: 'object', properties: { method: { const: 'bank' }, iban: { type: 'string' } } },
+                ],
+            },
+        };
+
+        it('creates the child context for the first variant when the value does not belong to any of them', () => {
+            provider = createProvider(properties, {});
+            var child: any = {},
+                create = spyOn(provider as any, 'createOutlinedChild').and.returnValue(child);
+
+            expect(provider.findByPointer('/payment').variant).toBeUndefined();
+            expect(provider.createChildFromPointer('/payment')).toBe(child);
+            expect(provider.findByPointer('/payment').variant).toBe('card');
+            expect((create.calls.mostRecent().args[0] as any).title).toBe('Card');
+        });
+
+        it('creates the child context for the variant of the default value', () => {
+            provider = createProvider({ payment: { ...properties.payment, default: { method: 'bank' } } }, {});
+            spyOn(provider as any, 'createOutlinedChild').and.returnValue({});
+
+            provider.createChildFromPointer('/payment');
+            expect(provider.findByPointer('/payment').variant).toBe('bank');
+        });
+
+        it('creates the validator of a variant once', done => {
+            provider = createProvider(properties, { payment: { method: 'card', number: '4111' } });
+            var field = provider.findByPointer('/payment'),
+                getValidator = spyOn((provider as any).validators, 'getValidator').and.callThrough();
+            spyOn(provider as any, 'createOutlinedChild').and.returnValue({});
+            field.instance = { value: field.ctx.value } as any;
+
+            Promise.all([(provider as any).validateFieldValue(field), (provider as any).validateFieldValue(field)]).then(() => {
+                expect(getValidator).toHaveBeenCalledTimes(1);
+
+                provider.selectVariant('/payment', 'bank');
+                return (provider as any).validateFieldValue(field);
+            }).then(() => {
+                expect(getValidator).toHaveBeenCalledTimes(2);
+                done();
+            });
+        });
+    });
+});
@@ -1,6 +1,5 @@
 import { Inject, Injectable, Optional } from '@angular/core';
-import { MessageBundle } from '@angular/compiler';
-import { Subject, Subscription, timer } from 'rxjs';
+import { Subject, Subscription, timer, merge } from 'rxjs';
 import { debounce, map, bufferTime, filter } from 'rxjs/operators';
 import {
     IRelatableSchemaAgent,
@@ -29,19 +28,64 @@ import {
 
 import { FormField, PatchableFormField } from './models/form-field';
 import { FieldComponentContext, FormModes } from './models/form-field-context';
-import { ValidatableFormField, FormFieldValidationResult, ValidationLevel, FormFieldsetFieldValidationResult } from './models/form-field-validation';
+import { FormDraft, FormDraftStore, formDraftStoreToken } from './models/form-draft';
+import { FieldValidatorRegistration, FieldValidatorResult, FORM_FIELD_VALIDATORS } from './models/field-validator';
+import { FieldTypeRule, FORM_FIELD_TYPE_RULES } from './models/field-type-rule';
+import { TranslationMessageBundle, TranslationParams, TranslationProvider, isTranslationMessageBundle, translationProviderToken } from './models/translation-provider';
+import { FieldAccessPolicy, fieldAccessPolicyToken } from './models/field-access-policy';
+import { FieldChangeHistory, FieldChangeHistoryEntry } from './field-change-history';
+import {
+    ValidatableFormField,
+    FormFieldValidationResult,
+    ValidationLevel,
+    FormFieldsetFieldValidationResult,
+    ServerValidationResult,
+    FormValidationSummary,
+    FormFieldsetValidationSummary,
+} from './models/form-field-validation';
 import {
     parseRelativePointer,
     parseAbsolutePointer,
     traverseFieldContextsWithRelativePointer,
     traverseFieldContextsWithAbsolutePointer,
+    resolveRelativePointer,
+    isDoneResolvingRelativePointer,
+    isKeySelectingRelativePointer,
+    serverFieldPathToPointer,
 } from './pointer-tools';
+import {
+    ConditionalSchemaRule,
+    ConditionalRequiredRule,
+    SchemaReferenceResolver,
+    collectConditionalSchemaRules,
+    collectConditionalRequiredRules,
+    getConditionallyHiddenPointers,
+    getConditionallyRequiredPointers,
+    resolveSubschema,
+} from './schema-conditions';
+import { diffArrayPatchOperations } from './array-diff';
+import { resolveFieldType } from './field-type-rules';
+import { FieldDescriptorConflict, isComposedSchemaPointer, mergeFieldDescriptors } from './field-descriptor-merging';
+import { SchemaVariant, getSchemaVariants, detectSchemaVariant, convertToSchemaVariant, getDefaultSchemaVariant } from './schema-variants';
+import { formatMessage, interpolateMessage } from './message-format';
+import { CatalogTranslationProvider } from './translation-provider.service';
+import { ComputedFieldDefinition, CompiledComputedExpression, getComputedFieldDefinition, compileComputedExpression } from './computed-fields';
 
 import * as _ from 'lodash';
 
 import debuglib from 'debug';
 const debug = debuglib('schema-ui:field-context-provider');
 
+/**
+ * The time without any field changes after which a draft of the form is saved.
+ */
+const draftSaveDebounceTime = 1000;
+
+/**
+ * The time after the last validation run after which the validation summary is emitted.
+ */
+const validationSummaryDebounceTime = 50;
+
 /**
  * Class that maintains a list of fieldsets and fields for a form builder.
  */
@@ -53,6 +97,27 @@ export class FieldContextProvider {
      */
     protected readonly validator: Promise<ISchemaValidator>;
 
+    /**
+     * The initial values of the form fields (replaced when the form is rebased on a refreshed entity).
+     */
+    public get initialValues(): any {
+        return this._initialValues;
+    }
+    private _initialValues: any;
+
+    /**
+     * The mode of the form (changed using setMode()).
+     */
+    public get mode(): FormModes {
+        return this._mode;
+    }
+    private _mode: FormModes;
+
+    /**
+     * The provider used to translate labels, descriptions and validation messages (if any).
+     */
+    private translations: TranslationProvider;
+
     /**
      * List of all fieldsets and fields.
      */
@@ -75,15 +140,60 @@ export class FieldContextProvider {
         }
         this._visible = val as any;
 
-        this.changeFieldVisibility(x => _.isEmpty(this._visible) || this._visible.indexOf(x.ctx.pointer) > -1);
+        this.updateFieldVisibility();
     }
     private _visible: string[];
 
+    /**
+     * Rules from the schema (if/then/else, dependentSchemas and dependencies) that determine which fields are visible.
+     */
+    private conditionalRules: ConditionalSchemaRule[];
+
+    /**
+     * Rules from the schema (dependentRequired, dependencies and if/then/else) that determine which fields are required.
+     */
+    private conditionalRequiredRules: ConditionalRequiredRule[];
+
+    /**
+     * All fields whose value is computed from other fields, in the order they should be computed in.
+     */
+    private computedFields: ComputedFieldState[];
+
+    /**
+     * The child contexts that were created from this context.
+     */
+    protected readonly children: FieldContextChild[] = [];
+
     /**
      * Setting to control whether when all fields are rendered we need to validate all fields.
      */
     public validateOnceReady: boolean = true;
 
+    /**
+     * The undo/redo history of field value changes, shared with the parent context (if any) and all child contexts.
+     */
+    public readonly history: FieldChangeHistory;
+
+    /**
+     * The conflicts found while merging fields that are described more than once in the schema (e.g. using allOf).
+     */
+    public readonly descriptorConflicts: FieldDescriptorConflict[] = [];
+
+    /**
+     * The last known value for every field by pointer, used to determine the old value when recording changes in the history.
+     */
+    private historyValues: { [pointer: string]: any } = {};
+
+    /**
+     * The validators for the variants of fields described using oneOf or anyOf, by the pointer of the field and the id of the variant.
+     */
+    private variantValidators: { [key: string]: Promise<ISchemaValidator> } = {};
+
+    /**
+     * Setting to control whether a draft of the form is automatically saved when values change (if a draft store was provided).
+     */
+    public autoSaveDrafts: boolean = true;
+
 //#region RX Event Emitters
     /**
      * An observable that emits the context of a field when it's value has changed.
@@ -110,6 +220,33 @@ export class FieldContextProvider {
      */
     public ready$: Subject<boolean> = new Subject();
 
+    /**
+     * An observable that emits a previously saved draft for this form, once it was found in the draft store.
+     *
+     * Use this to offer the user to restore the draft with restoreDraft().
+     */
+    public draftAvailable$: Subject<FormDraft> = new Subject();
+
+    /**
+     * An observable that emits a summary of the validation state of the form after every validation run.
+     */
+    public validation$: Subject<FormValidationSummary> = new Subject();
+
+    /**
+     * An observable that emits the new locale, once the form (and it's child contexts) were translated to it.
+     */
+    public localeChanged$: Subject<string> = new Subject();
+
+    /**
+     * An observable that emits the new mode, once the mode of the form was changed using setMode().
+     */
+    public modeChanged$: Subject<FormModes> = new Subject();
+
+    /**
+     * Emits after any (field, fieldset or form) validation run.
+     */
+    private validationRun$: Subject<void> = new Subject();
+
     /**
      * Subscription that listens to fields that become ready.
      */
@@ -129,6 +266,46 @@ export class FieldContextProvider {
      * Subscription that listens to fieldsets that have one one their fields change values, in order to update their validation status.
      */
     private fieldsetValidationSubscription: Subscription;
+
+    /**
+     * Subscription that listens to fields that become ready, in order to remember their values for the change history.
+     */
+    private historyReadySubscription: Subscription;
+
+    /**
+     * Subscription that listens to field-values changing, in order to record them in the change history.
+     */
+    private historyChangeSubscription: Subscription;
+
+    /**
+     * Subscription that listens to field-values changing, in order to save a draft of the form.
+     */
+    private draftSaveSubscription: Subscription;
+
+    /**
+     * Subscription that listens to field-values changing, in order to update the visibility of conditional fields.
+     */
+    private conditionalVisibilitySubscription: Subscription;
+
+    /**
+     * Subscription that listens to field-values changing, in order to update the required state of conditionally required fields.
+     */
+    private conditionalRequiredSubscription: Subscription;
+
+    /**
+     * Subscription that listens to field-values changing and the form becoming ready, in order to update computed fields.
+     */
+    private computedFieldsSubscription: Subscription;
+
+    /**
+     * Subscription that listens to changes of the field access policy, in order to re-apply it.
+     */
+    private accessPolicySubscription: Subscription = Subscription.EMPTY;
+
+    /**
+     * Subscription that listens to validation runs, in order to emit the validation summary.
+     */
+    private validationSummarySubscription: Subscription;
 //#endregion
 
 //#region Form-mode check methods
@@ -165,8 +342,8 @@ export class FieldContextProvider {
     public isDirty(): boolean {
         return this.sets.some(
             set => set.fields.some(
-                // If the field hasnt initialized yet; it is not dirty, except when we are in create mode.
-                field => this.isFieldReady(field) && !!field.instance.dirty));
+                // If the field hasnt initialized yet; it is only dirty when it's value was changed (e.g. by restoring a draft).
+                field => (this.isFieldReady(field) && !!field.instance && !!field.instance.dirty) || this.hasChangedUninitializedValue(field)));
     }
 
     /**
@@ -205,6 +382,48 @@ export class FieldContextProvider {
     public isViewMode(): boolean {
         return this.mode === 'view';
     }
+
+    /**
+     * Switch the form (and it's child contexts) to another mode, e.g. from view to edit mode and back.
+     *
+     * The readonly state of the fields is determined again, and applied to the field instances.
+     *
+     * @param mode The new mode of the form.
+     */
+    public setMode(mode: FormModes): void {
+        if (mode === this.mode) {
+            return;
+        }
+
+        this._mode = mode;
+        this.updateReadonlyStates();
+        if (!!this.accessPolicy) {
+            this.updateFieldVisibility();
+        }
+
+        for (var child of this.children) {
+            child.context.setMode(child.field.ctx.readonly ? 'view' : (child.isNew && mode === 'edit' ? 'create' : mode));
+        }
+
+        this.modeChanged$.next(mode);
+    }
+
+    /**
+     * Determine the readonly state of all fields again, and apply it to the field instances.
+     */
+    protected updateReadonlyStates(): void {
+        this.each(field => {
+            var readonly = this.isReadonlyField(field.ctx.meta);
+            if (field.ctx.readonly === readonly) {
+                return;
+            }
+
+            field.ctx.readonly = readonly;
+            if (!!field.instance) {
+                field.instance.disabled = readonly;
+            }
+        });
+    }
 //#endregion
 
     /**
@@ -214,22 +433,42 @@ export class FieldContextProvider {
      * @param initialValues The initial values of the form fields.
      * @param parent The parent context if applicable.
      * @param translateMessageOrDefault Method to translate messages with within the form/
-     * @param messages An optional messagebundle instead of the translation function, to be used to translate labels and descriptions.
+     * @param translations An optional translation provider (or a message bundle, like the MessageBundle of @angular/compiler) instead of the translation function, to be used to translate labels, descriptions and validation messages.
+     * @param readonlyFields A list of JSON-Pointers of fields that should be readonly.
+     * @param drafts An optional store to save drafts of the in-progress form to.
+     * @param fieldValidators Optional custom validators for schema keywords and formats.
+     * @param fieldTypeRules Optional rules to resolve the field type of fields without an explicit field type.
+     * @param accessPolicy Optional policy that decides which fields are hidden, readonly or editable for the current user.
      */
     public constructor(
         @Inject(SchemaNavigator) public schema: SchemaNavigator,
         @Inject('ISchemaCache') public cache: ISchemaCache,
         @Inject(ValidatorCache) public validators: ValidatorCache,
-        @Inject('formMode') @Optional() public readonly mode: FormModes = 'edit',
-        @Inject('formInitialValues') @Optional() public readonly initialValues?: any,
+        @Inject('formMode') @Optional() mode: FormModes = 'edit',
+        @Inject('formInitialValues') @Optional() initialValues?: any,
         @Inject('parentFieldContext') @Optional() public readonly parent?: FieldContextProvider,
         @Inject('translateMessageOrDefault') @Optional() private translateMessageOrDefault?: translateMessageOrDefaultFunc,
-        @Inject(MessageBundle) @Optional() private messages?: MessageBundle,
+        @Inject(translationProviderToken) @Optional() translations?: TranslationProvider | TranslationMessageBundle,
         @Inject('readonlyFields') @Optional() private readonlyFields?: string[],
+        @Inject(formDraftStoreToken) @Optional() private drafts?: FormDraftStore,
+        @Inject(FORM_FIELD_VALIDATORS) @Optional() private fieldValidators?: (FieldValidatorRegistration | FieldValidatorRegistration[])[],
+        @Inject(FORM_FIELD_TYPE_RULES) @Optional() private fieldTypeRules?: (FieldTypeRule | FieldTypeRule[])[],
+        @Inject(fieldAccessPolicyToken) @Optional() private accessPolicy?: FieldAccessPolicy,
     ) {
+        this._mode = mode;
+        this.translations = FieldContextProvider.createTranslationProvider(translations);
+        this._initialValues = initialValues;
         this.sets = this.mapped = this._mapSchemaToFieldsets(initialValues);
         this._visible = this.extract(f => f.ctx.pointer);
         this.validator = validators.getValidator(schema);
+        this.history = !!parent ? parent.history : new FieldChangeHistory();
+
+        // Determine which fields are visible based on the conditions in the schema.
+        this.conditionalRules = this._collectConditionalRules();
+        this.updateFieldVisibility();
+        this.conditionalRequiredRules = this._collectConditionalRequiredRules();
+        this.updateFieldRequiredStates();
+        this.computedFields = this._mapComputedFields();
 
         // Emit form ready events.
         var lastReadyState: boolean = false;
@@ -277,6 +516,52 @@ export class FieldContextProvider {
                 this.validateFieldset(set, false).catch(err => {
                     debug(`[warn] on-change validation of fieldset [${set.id}] failed: `, err);
                 }));
+
+        // Emit a validation summary once a validation run has finished.
+        this.validationSummarySubscription = this.validationRun$
+            .pipe(debounce(() => timer(validationSummaryDebounceTime)))
+            .subscribe(() => this.validation$.next(this.getValidationSummary()));
+
+        // Keep track of the value changes, so they can be undone.
+        this.historyReadySubscription = this.fieldReady$.subscribe(field => this.rememberHistoryValue(field));
+        this.historyChangeSubscription = this.fieldChanged$.subscribe(field => this.recordHistoryChange(field));
+
+        // Save drafts of the form when values change, and check whether there is a draft to restore.
+        this.draftSaveSubscription = this.fieldChanged$
+            .pipe(
+                debounce(() => timer(draftSaveDebounceTime)),
+                filter(() => this.autoSaveDrafts && !!this.drafts && this.isEditMode() && this.isDirty()))
+            .subscribe(() =>
+                this.saveDraft().catch(err => {
+                    debug(`[warn] saving the draft for form "${this.getDraftKey()}" failed: `, err);
+                }));
+        // Update the visibility of conditional fields when values change.
+        this.conditionalVisibilitySubscription = this.fieldChanged$
+            .pipe(filter(() => this.conditionalRules.length > 0))
+            .subscribe(() => this.updateFieldVisibility());
+
+        // Update the required state of conditionally required fields when values change.
+        this.conditionalRequiredSubscription = this.fieldChanged$
+            .pipe(filter(() => this.conditionalRequiredRules.length > 0))
+            .subscribe(() => this.updateFieldRequiredStates());
+
+        // Re-apply the access policy when it changes (e.g. because the permissions of the user changed).
+        if (!!this.accessPolicy && !!this.accessPolicy.changed$) {
+            this.accessPolicySubscription = this.accessPolicy.changed$.subscribe(() => this.applyAccessPolicy());
+        }
+
+        // Update computed fields once all fields are available, and when one of their inputs changes.
+        this.computedFieldsSubscription = merge(
+                this.ready$.pipe(filter(x => x === true), map((): string => null)),
+                this.fieldChanged$.pipe(map(field => field.ctx.pointer)))
+            .pipe(filter(() => this.computedFields.length > 0))
+            .subscribe(pointer => this.updateComputedFields(pointer));
+
+        if (!!this.drafts) {
+            this.loadDraft()
+                .then(draft => !!draft && this.draftAvailable$.next(draft))
+                .catch(err => debug(`[warn] checking for a draft for form "${this.getDraftKey()}" failed: `, err));
+        }
     }
 
 //#region Schema Mapping
@@ -294,12 +579,19 @@ export class FieldContextProvider {
         if (field.field.type == null || field.field.type === '') {
             field.field.type = this._resolveFieldType(field);
         }
+
+        // Determine the variant of fields described using oneOf or anyOf.
+        var variants = this.getFieldVariants(field),
+            variant = !!variants ? detectSchemaVariant(variants, initialValue, this.schema.original, this.resolveSchemaReference) : null;
+
         return <FormFieldViewModel<FormField<any>>> {
             label: translationObj.label,
             description: translationObj.description,
             validation: FieldContextProvider.createPristineFieldvalidationResult(),
             visible: true,
             instance: void 0,
+            variants: variants || void 0,
+            variant: variant != null ? variant.id : void 0,
             ctx: {
                 id: (_.isEmpty(fieldsetId) ? defaultFieldsetId : fieldsetId) + '-' + field.name,
                 name: field.name,
@@ -322,7 +614,7 @@ export class FieldContextProvider {
         initialValueSelector: initialFieldValueFetcher,
     ): FormFieldSet {
         // Map fields.
-        var mapped = fields.map(definition => this._mapFieldFromSchema(fieldsetId, definition, initialValueSelector(definition)));
+        var mapped = this._mergeFieldDescriptors(fields).map(definition => this._mapFieldFromSchema(fieldsetId, definition, initialValueSelector(definition)));
         debug('mapped fields from the schema:', mapped.map(x => x.ctx.name));
 
         return <FormFieldSet> {
@@ -334,6 +626,41 @@ export class FieldContextProvider {
         };
     }
 
+    /**
+     * Merge the descriptors of fields that are described more than once (e.g. using allOf), so there is one effective descriptor per field.
+     *
+     * Fields that are described once (and of which the schema does not compose other schemas) are used as they are.
+     */
+    private _mergeFieldDescriptors(fields: ExtendedFieldDescriptor[]): ExtendedFieldDescriptor[] {
+        return _.uniqBy(fields, x => x.pointer).map(field => {
+            var descriptors = fields.filter(x => x.pointer === field.pointer);
+            if (descriptors.length === 1 && !isComposedSchemaPointer(this.schema.original, field.pointer, this.resolveSchemaReference)) {
+                return field;
+            }
+
+            try {
+                descriptors = descriptors.concat(
+                    this.schema.getFieldDescriptorForPointer(field.pointer).filter((x: ExtendedFieldDescriptor) => !descriptors.some(y => y === x || _.isEqual(y, x))));
+            }
+            catch (e) {
+                debug(`[warn] unable to fetch all descriptors for field "${field.pointer}"`, e);
+            }
+            return this.mergeDescriptors(descriptors);
+        });
+    }
+
+    /**
+     * Merge the given descriptors of a single field, and report the conflicts (once per field, the fields are mapped again on rebase).
+     */
+    private mergeDescriptors(descriptors: ExtendedFieldDescriptor[]): ExtendedFieldDescriptor {
+        var result = mergeFieldDescriptors(descriptors);
+        if (result.conflicts.length > 0 && !this.descriptorConflicts.some(x => x.pointer === result.descriptor.pointer)) {
+            debug(`[warn] the descriptors of field "${result.descriptor.pointer}" conflict on: ${result.conflicts.map(x => x.keyword).join(', ')}`, result.conflicts);
+            this.descriptorConflicts.push(...result.conflicts);
+        }
+        return result.descriptor;
+    }
+
     /**
      * Map the current schema object to the locally set fieldsets and fields.
      *
@@ -347,6 +674,59 @@ export class FieldContextProvider {
             this._mapFieldsetFromSchema(fields, this.schema.entity + '_' + fieldsetId, this.getFieldInitialValue.bind(this)))
                 .sort((a, b) => a.pointer === '/' ? -1 : (b.pointer === '/' ? 1 : 0)); // Make sure the default fieldset is always at the top.
     }
+
+    /**
+     * Get the raw (sub-)schema that describes the data of this form.
+     */
+    protected getRawSchema(): JsonSchema | null {
+        return resolveSubschema(this.schema.original, this.getSchemaPointer(), this.resolveSchemaReference);
+    }
+
+    /**
+     * Get the JSON-Pointer to the object in the data that this form's schema describes ('' for the root).
+     */
+    protected getSchemaPointer(): string {
+        return _.trimEnd(this.schema.propertyPrefix || '', '/');
+    }
+
+    /**
+     * Resolver for references to other schemas, using the schema cache.
+     */
+    protected resolveSchemaReference: SchemaReferenceResolver = ref => this.cache.getSchema(ref);
+
+    /**
+     * Collect the rules that conditionally show fields from the schema.
+     */
+    private _collectConditionalRules(): ConditionalSchemaRule[] {
+        try {
+            var raw = this.getRawSchema();
+            if (raw == null) {
+                return [];
+            }
+            return collectConditionalSchemaRules(raw, this.getSchemaPointer(), this.schema.original, this.resolveSchemaReference);
+        }
+        catch (e) {
+            debug(`[warn] unable to collect the conditional rules for form "${this.schema.schemaId}${this.schema.propertyPrefix}"`, e);
+            return [];
+        }
+    }
+
+    /**
+     * Collect the rules that determine which fields are conditionally required.
+     */
+    private _collectConditionalRequiredRules(): ConditionalRequiredRule[] {
+        try {
+            var raw = this.getRawSchema();
+            if (raw == null) {
+                return [];
+            }
+            return collectConditionalRequiredRules(raw, this.getSchemaPointer(), this.schema.original, this.resolveSchemaReference);
+        }
+        catch (e) {
+            debug(`[warn] unable to collect the conditional required rules for form "${this.schema.schemaId}${this.schema.propertyPrefix}"`, e);
+            return [];
+        }
+    }
 //#endregion
 
 //#region State management
@@ -355,6 +735,8 @@ export class FieldContextProvider {
      */
     public reset(): void {
         this.each(x => !!x.instance && x.instance.reset());
+        this.each(x => this.rememberHistoryValue(x));
+        this.history.forget(this);
     }
 
     /**
@@ -376,9 +758,42 @@ export class FieldContextProvider {
         if (!this.fieldsetValidationSubscription.closed) {
             this.fieldsetValidationSubscription.unsubscribe();
         }
+        if (!this.historyReadySubscription.closed) {
+            this.historyReadySubscription.unsubscribe();
+        }
+        if (!this.historyChangeSubscription.closed) {
+            this.historyChangeSubscription.unsubscribe();
+        }
+        if (!this.draftSaveSubscription.closed) {
+            this.draftSaveSubscription.unsubscribe();
+        }
+        if (!this.conditionalVisibilitySubscription.closed) {
+            this.conditionalVisibilitySubscription.unsubscribe();
+        }
+        if (!this.conditionalRequiredSubscription.closed) {
+            this.conditionalRequiredSubscription.unsubscribe();
+        }
+        if (!this.computedFieldsSubscription.closed) {
+            this.computedFieldsSubscription.unsubscribe();
+        }
+        if (!this.accessPolicySubscription.closed) {
+            this.accessPolicySubscription.unsubscribe();
+        }
+        if (!this.validationSummarySubscription.closed) {
+            this.validationSummarySubscription.unsubscribe();
+        }
+        this.history.forget(this);
+        this.historyValues = {};
+        if (!!this.parent) {
+            this.parent.removeChild(this);
+        }
         this.ready$.complete();
         this.fieldReady$.complete();
         this.fieldChanged$.complete();
+        this.draftAvailable$.complete();
+        this.validation$.complete();
+        this.localeChanged$.complete();
+        this.modeChanged$.complete();
     }
 
     /**
@@ -390,100 +805,402 @@ export class FieldContextProvider {
      * @return Cloned field context provider.
      */
     public clone(initialValues?: any, mode: FormModes = this.mode): FieldContextProvider {
-        var sibbling = new FieldContextProvider(this.schema, this.cache, this.validators, mode, initialValues, this.parent, this.translateMessageOrDefault, this.messages);
+        var sibbling = new FieldContextProvider(this.schema, this.cache, this.validators, mode, initialValues, this.parent, this.translateMessageOrDefault, this.translations, void 0, this.drafts, this.fieldValidators, this.fieldTypeRules, this.accessPolicy);
         sibbling.visible = this.visible;
+        sibbling._locale = this._locale;
         return sibbling;
     }
-//#endregion
 
-//#region Field (default) values
     /**
-     * Get the initial value for the given field.
+     * Rebase the form on a newer version of the entity (e.g. after it was changed on the server while the user was editing it).
+     *
+     * Fields the user did not change take the new value, fields that were changed on both sides (to different values) are reported as conflicts.
+     * Conflicting fields keep the value of the user, but will generate their patch operations (and tests) against the new value.
+     *
+     * @param newValues The new version of the entity.
+     *
+     * @return The pointers of the fields that were updated, and the conflicts that have to be resolved.
      */
-    public getFieldInitialValue(field: ExtendedFieldDescriptor): any {
-        if (_.isEmpty(this.initialValues)) {
-            return void 0;
-        }
+    public rebase(newValues: any): FormRebaseResult {
+        var result: FormRebaseResult = { updated: [], conflicts: [] };
 
-        var result: any;
-        try {
-            result = pointerGet(this.initialValues, field.pointer);
-        }
-        catch (e) {
-            if (this.isCreateMode()) {
-                var split = field.pointer.split('/');
-                if (split.length > 2) {
-                    var joined = split.slice(0, split.length - 1).join('/');
-                    if (!pointerHas(this.initialValues, joined)) {
-                        result = this.getFieldDefaultValue(field);
-                    }
+        this.each(field => {
+            var pointer = field.ctx.pointer,
+                base = this.getPointerInitialValue(pointer),
+                remote = tryPointerGet(newValues, pointer);
+            if (_.isEqual(base, remote)) {
+                // The value didn't change on the server.
+                return;
+            }
+
+            var local = !!field.instance ? field.instance.value : field.ctx.value,
+                touched = !!field.instance
+                    ? !!field.instance.dirty && !_.isEqual(local, field.instance.initialValue)
+                    : local !== void 0 && !_.isEqual(local, base);
+
+            if (touched && !_.isEqual(local, remote)) {
+                result.conflicts.push({ pointer, label: field.label, base, local: _.cloneDeep(local), remote });
+                field.ctx.initialValue = remote;
+                if (!!field.instance) {
+                    field.instance.initialValue = _.cloneDeep(remote);
                 }
+                return;
             }
 
-            //debug(`getFieldInitialValue: something went wrong trying to fetch the initialValue for the pointer "${field.pointer}".`, e);
+            this.applyRemoteValue(field, remote);
+            result.updated.push(pointer);
+        });
+
+        this._initialValues = newValues;
+
+        // Rebase the child contexts on their part of the new values (outlined children only get the value of their field).
+        for (var child of this.children) {
+            var childResult = child.context.rebase(child.prefix.length > 0 ? tryPointerGet(newValues, child.pointer) : newValues),
+                prefix = child.prefix;
+            result.updated.push(...childResult.updated.map(x => prefix + x));
+            result.conflicts.push(...childResult.conflicts.map(x => ({ ...x, pointer: prefix + x.pointer })));
         }
 
-        if (result == null && field.isRequired) {
-            debug(`getFieldInitialValue: something went wrong fetching the initial value for the required field "${field.id}" on path [${field.pointer}].`);
+        this.updateComputedFields();
+
+        if (result.conflicts.length > 0) {
+            debug(`rebased form "${this.schema.schemaId}${this.schema.propertyPrefix}" with ${result.conflicts.length} conflicts`, result.conflicts);
         }
         return result;
     }
 
     /**
-     * Get the initial value for the given JSON-Pointer.
+     * Resolve a conflict that was reported by rebase().
+     *
+     * @param conflict The conflict to resolve.
+     * @param resolution Whether to keep the value of the user (local) or to take the new value (remote).
+     *
+     * @return Whether or not the conflict could be resolved.
      */
-    public getPointerInitialValue(pnt: string): any {
-        if (_.isEmpty(this.initialValues)) {
-            return void 0;
+    public resolveConflict(conflict: FormFieldConflict, resolution: 'local' | 'remote'): boolean {
+        var field = this.findByPointer(conflict.pointer);
+        if (field == null) {
+            // The conflict may have been reported by a child context.
+            var child = this.children.find(x => conflict.pointer.startsWith(x.pointer + '/'));
+            return child != null && child.context.resolveConflict({ ...conflict, pointer: conflict.pointer.substr(child.prefix.length) }, resolution);
         }
 
-        return tryPointerGet(this.initialValues, pnt);
+        if (resolution === 'remote') {
+            this.applyRemoteValue(field, conflict.remote);
+        }
+        else if (!!field.instance) {
+            field.instance.value = _.cloneDeep(conflict.local);
+        }
+        else {
+            field.ctx.value = _.cloneDeep(conflict.local);
+        }
+        return true;
     }
 
     /**
-     * Get the default value for the given field, intelligently looking it up in the parent form.
+     * Make the given remote value both the initial and current value of the field.
      */
-    public getFieldDefaultValue(field: ExtendedFieldDescriptor): any {
-        if (this.isFieldParentIdentifier(field)) {
-            // The property is an identifier of it's parent in create mode, fill it with the parent value.
-            return this.parent.getFieldValueByName(field.name);
+    private applyRemoteValue(field: FormFieldViewModel<FormField<any>>, remote: any): void {
+        field.ctx.initialValue = remote;
+        field.ctx.value = remote;
+        if (!!field.instance) {
+            // Remember the value first, so the change event of the reset is not recorded as a change of the user.
+            this.historyValues[field.ctx.pointer] = _.cloneDeep(remote);
+            field.instance.initialValue = _.cloneDeep(remote);
+            field.instance.reset();
         }
-        return field.default;
     }
+//#endregion
 
+//#region Change history
     /**
-     * Returns whether or not the given field represents the identity of it's parent form. (A parent child relation)
+     * Whether or not there is a change in this form (or any of it's parent or child forms) that can be undone.
      */
-    public isFieldParentIdentifier(field: ExtendedFieldDescriptor): boolean {
-        return this.parent && this.isCreateMode() && this.parent.schema.identityProperties.indexOf(field.name) > -1 && field.name !== 'name' && field.name !== 'internalname';
+    public canUndo(): boolean {
+        return this.history.canUndo();
     }
 
     /**
-     * Check whether or not the field is readonly.
-     *
-     * @param field
+     * Whether or not there is an undone change in this form (or any of it's parent or child forms) that can be redone.
      */
-    public isReadonlyField(field: ExtendedFieldDescriptor): boolean {
-        if (this.isViewMode() || this.isFieldParentIdentifier(field)) {
-            return true;
-        }
+    public canRedo(): boolean {
+        return this.history.canRedo();
+    }
 
-        if (Array.isArray(this.readonlyFields)) {
-            return this.readonlyFields.indexOf(field.pointer) > -1;
+    /**
+     * Undo the last value change made in this form (or any of it's parent or child forms).
+     *
+     * @return Whether or not a change was undone.
+     */
+    public undo(): boolean {
+        var entry = this.history.undo();
+        if (entry == null) {
+            return false;
         }
-
-        return false;
+        return entry.context.applyHistoryValue(entry, entry.oldValue);
     }
 
     /**
-     * Get the value of the field with the given id.
+     * Redo the last undone value change in this form (or any of it's parent or child forms).
      *
-     * @param fieldId Field identity.
+     * @return Whether or not a change was redone.
      */
-    public getFieldValue(matcher: (field: FormFieldViewModel<FormField<any>>) => boolean): any {
-        var field = this.find(matcher);
-        if (field == null) {
-            return void 0;
+    public redo(): boolean {
+        var entry = this.history.redo();
+        if (entry == null) {
+            return false;
+        }
+        return entry.context.applyHistoryValue(entry, entry.newValue);
+    }
+
+    /**
+     * Write a value from the history back into the field instance.
+     *
+     * @param entry The history entry that is being applied.
+     * @param value The value to write into the field.
+     */
+    protected applyHistoryValue(entry: FieldChangeHistoryEntry, value: any): boolean {
+        var field = this.findByPointer(entry.pointer);
+        if (field == null || !field.instance) {
+            debug(`[warn] unable to apply the history value for field "${entry.pointer}", it is not available (anymore).`);
+            return false;
+        }
+
+        // Remember the value first, so the change event this causes is not recorded as a new change.
+        this.historyValues[entry.pointer] = _.cloneDeep(value);
+        field.instance.value = _.cloneDeep(value);
+        return true;
+    }
+
+    /**
+     * Remember the current value of the given field, as the old value for the next change.
+     */
+    private rememberHistoryValue(field: FormFieldViewModel<FormField<any>>): void {
+        if (!!field.instance) {
+            this.historyValues[field.ctx.pointer] = _.cloneDeep(field.instance.value);
+        }
+    }
+
+    /**
+     * Record the change of the given field's value in the history.
+     */
+    private recordHistoryChange(field: FormFieldViewModel<FormField<any>>): void {
+        if (!field.instance) {
+            return;
+        }
+
+        var oldValue = this.historyValues[field.ctx.pointer],
+            newValue = field.instance.value;
+        if (_.isEqual(oldValue, newValue)) {
+            return;
+        }
+
+        // Computed values are not recorded, they follow from the (recorded) changes of their inputs.
+        var computed = this.computedFields.find(x => x.field === field);
+        if (computed != null && _.isEqual(newValue, computed.value)) {
+            this.historyValues[field.ctx.pointer] = _.cloneDeep(newValue);
+            return;
+        }
+
+        this.historyValues[field.ctx.pointer] = _.cloneDeep(newValue);
+        this.history.record({
+            context: this,
+            pointer: field.ctx.pointer,
+            oldValue,
+            newValue: _.cloneDeep(newValue),
+        });
+    }
+//#endregion
+
+//#region Drafts
+    /**
+     * Get the key that drafts of this form are stored under, based on the schema and the identity of the edited entity.
+     */
+    public getDraftKey(): string {
+        var identity = this.getIdentity(),
+            serialized = identity == null ? 'new' : (typeof identity === 'object' ? JSON.stringify(identity) : String(identity));
+        return `${this.schema.schemaId}${this.schema.propertyPrefix}:${serialized}`;
+    }
+
+    /**
+     * Create a snapshot of the current state of the form, that can be saved as a draft.
+     */
+    public createDraft(): FormDraft {
+        return {
+            key: this.getDraftKey(),
+            schemaId: this.schema.schemaId,
+            identity: this.getIdentity(),
+            mode: this.mode,
+            data: this.getData(),
+            dirty: this.extract(x => (!!x.instance && !!x.instance.dirty) || this.hasChangedUninitializedValue(x) ? x.ctx.pointer : null).filter(x => x != null),
+            savedAt: new Date().toISOString(),
+        };
+    }
+
+    /**
+     * Save a draft of the current state of the form in the draft store.
+     *
+     * @return The saved draft, or null if there is no draft store.
+     */
+    public saveDraft(): Promise<FormDraft | null> {
+        if (!this.drafts) {
+            return Promise.resolve(null);
+        }
+
+        var draft = this.createDraft();
+        return this.drafts.save(draft.key, draft).then(() => draft);
+    }
+
+    /**
+     * Load the draft for this form from the draft store.
+     *
+     * @return The draft, or null if there is no draft (store).
+     */
+    public loadDraft(): Promise<FormDraft | null> {
+        if (!this.drafts) {
+            return Promise.resolve(null);
+        }
+        return this.drafts.load(this.getDraftKey());
+    }
+
+    /**
+     * Remove the draft for this form from the draft store, e.g. after the form was saved.
+     */
+    public discardDraft(): Promise<void> {
+        if (!this.drafts) {
+            return Promise.resolve();
+        }
+        return this.drafts.remove(this.getDraftKey());
+    }
+
+    /**
+     * Restore the values of the dirty fields in the given draft.
+     *
+     * The restored fields will be dirty, so the patch operations are still generated against the original initialValues.
+     *
+     * @param draft The draft to restore.
+     */
+    public restoreDraft(draft: FormDraft): void {
+        if (draft.mode !== this.mode) {
+            debug(`[warn] restoring a draft that was made in "${draft.mode}" mode, in a form that is in "${this.mode}" mode.`);
+        }
+
+        this.each(field => {
+            if (draft.dirty.indexOf(field.ctx.pointer) < 0) {
+                return;
+            }
+
+            var value = _.cloneDeep(tryPointerGet(draft.data, field.ctx.pointer));
+            if (!!field.instance) {
+                field.instance.value = value;
+            }
+            else {
+                // The field will pick up the value (and be dirty) once it is initialized.
+                field.ctx.value = value;
+            }
+        });
+    }
+//#endregion
+
+//#region Field (default) values
+    /**
+     * Get the initial value for the given field.
+     */
+    public getFieldInitialValue(field: ExtendedFieldDescriptor): any {
+        if (_.isEmpty(this.initialValues)) {
+            return void 0;
+        }
+
+        var result: any;
+        try {
+            result = pointerGet(this.initialValues, field.pointer);
+        }
+        catch (e) {
+            if (this.isCreateMode()) {
+                var split = field.pointer.split('/');
+                if (split.length > 2) {
+                    var joined = split.slice(0, split.length - 1).join('/');
+                    if (!pointerHas(this.initialValues, joined)) {
+                        result = this.getFieldDefaultValue(field);
+                    }
+                }
+            }
+
+            //debug(`getFieldInitialValue: something went wrong trying to fetch the initialValue for the pointer "${field.pointer}".`, e);
+        }
+
+        if (result == null && field.isRequired) {
+            debug(`getFieldInitialValue: something went wrong fetching the initial value for the required field "${field.id}" on path [${field.pointer}].`);
+        }
+        return result;
+    }
+
+    /**
+     * Get the initial value for the given JSON-Pointer.
+     */
+    public getPointerInitialValue(pnt: string): any {
+        if (_.isEmpty(this.initialValues)) {
+            return void 0;
+        }
+
+        return tryPointerGet(this.initialValues, pnt);
+    }
+
+    /**
+     * Get the default value for the given field, intelligently looking it up in the parent form.
+     */
+    public getFieldDefaultValue(field: ExtendedFieldDescriptor): any {
+        if (this.isFieldParentIdentifier(field)) {
+            // The property is an identifier of it's parent in create mode, fill it with the parent value.
+            return this.parent.getFieldValueByName(field.name);
+        }
+        return field.default;
+    }
+
+    /**
+     * Returns whether or not the given field represents the identity of it's parent form. (A parent child relation)
+     */
+    public isFieldParentIdentifier(field: ExtendedFieldDescriptor): boolean {
+        return this.parent && this.isCreateMode() && this.parent.schema.identityProperties.indexOf(field.name) > -1 && field.name !== 'name' && field.name !== 'internalname';
+    }
+
+    /**
+     * Check whether or not the field is readonly.
+     *
+     * @param field
+     */
+    public isReadonlyField(field: ExtendedFieldDescriptor): boolean {
+        if (this.isViewMode() || this.isFieldParentIdentifier(field)) {
+            return true;
+        }
+
+        // Fields the user is not allowed to change.
+        if (!!this.accessPolicy && this.accessPolicy.getAccess(field, this.mode) !== 'editable') {
+            return true;
+        }
+
+        // Computed fields are readonly unless the schema allows the user to override them.
+        var computed = getComputedFieldDefinition(field);
+        if (computed != null && !computed.overridable) {
+            return true;
+        }
+
+        if (Array.isArray(this.readonlyFields)) {
+            return this.readonlyFields.indexOf(field.pointer) > -1;
+        }
+
+        return false;
+    }
+
+    /**
+     * Get the value of the field with the given id.
+     *
+     * @param fieldId Field identity.
+     */
+    public getFieldValue(matcher: (field: FormFieldViewModel<FormField<any>>) => boolean): any {
+        var field = this.find(matcher);
+        if (field == null) {
+            return void 0;
         }
 
         if (field.instance) {
@@ -553,51 +1270,154 @@ export class FieldContextProvider {
     }
 //#endregion
 
+//#region Computed fields
     /**
-     * Find the field type for the given form field.
-     * @return string the field.type
+     * Recalculate the values of the computed fields.
+     *
+     * @param changedPointer The pointer of the field that changed, or nothing to recalculate all computed fields.
      */
-    private _resolveFieldType(descriptor: ExtendedFieldDescriptor): string {
-        if (!!descriptor.field.type) {
-            return descriptor.field.type;
-        }
+    public updateComputedFields(changedPointer?: string): void {
+        var changed: string[] = changedPointer == null ? null : [changedPointer];
 
-        // Add and remove field types here.
-        if (descriptor.enum != null) {
-            return 'EnumDropdownField';
-        }
-        else if (descriptor.type === 'object' && descriptor.patternProperties != null) {
-            return 'InlineTabField';
-        }
-        else if (
-            descriptor.type === 'array' &&
-            ((descriptor.items as JsonSchema)['type'] === 'object' || ((descriptor.items as JsonSchema[])[0] && (descriptor.items as JsonSchema[])[0].type === 'object'))
-        ) {
-            return 'InlineListField';
-        }
-        else if (
-            descriptor.type === 'array' &&
-            (   (descriptor.items as JsonSchema)['type'] === 'integer' || (descriptor.items as JsonSchema)['type'] === 'string' ||
-                ((descriptor.items as JsonSchema[])[0] && (descriptor.items as JsonSchema[])[0].type === 'integer') ||
-                ((descriptor.items as JsonSchema[])[0] && (descriptor.items as JsonSchema[])[0].type === 'string'))
-        ) {
-            return 'SelectField';
-        }
-        else if (descriptor.type === 'string') {
-            if (descriptor.format === 'date-time' || descriptor.format === 'iso8601')
-                return 'DateTimeField';
-            else
-                return 'TextField';
+        for (var state of this.computedFields) {
+            if (state.field.ctx.pointer === changedPointer) {
+                // Once the user changes an overridable computed field, it is no longer computed.
+                if (state.definition.overridable && !!state.field.instance && state.value !== void 0 && !_.isEqual(state.field.instance.value, state.value)) {
+                    state.overridden = true;
+                    debug(`computed field "${changedPointer}" was overridden by the user, it will no longer be computed`);
+                }
+                continue;
+            }
+
+            if (state.overridden || (changed != null && !state.external && _.intersection(state.dependencies, changed).length === 0)) {
+                continue;
+            }
+
+            var value: any;
+            try {
+                value = state.expression.evaluate(pnt => this.getFieldValueByPointer(pnt, state.field.ctx.pointer));
+            }
+            catch (e) {
+                debug(`[warn] unable to compute the value of field "${state.field.ctx.pointer}" using expression "${state.expression.expression}"`, e);
+                continue;
+            }
+
+            if (_.isEqual(value, state.value) && (!state.field.instance || _.isEqual(value, state.field.instance.value))) {
+                continue;
+            }
+
+            state.value = value;
+            if (!!state.field.instance) {
+                state.field.instance.value = _.cloneDeep(value);
+            }
+            else {
+                // The field will pick up the value once it is initialized.
+                state.field.ctx.value = _.cloneDeep(value);
+            }
+
+            if (changed != null) {
+                changed.push(state.field.ctx.pointer);
+            }
         }
-        else if (descriptor.type === 'integer' || descriptor.type === 'number') {
-            return 'NumericField';
+    }
+
+    /**
+     * Collect all the computed fields in this form, and sort them in the order they have to be computed in.
+     */
+    private _mapComputedFields(): ComputedFieldState[] {
+        var states: ComputedFieldState[] = [];
+        this.each(field => {
+            var definition = getComputedFieldDefinition(field.ctx.meta);
+            if (definition == null) {
+                return;
+            }
+
+            try {
+                var expression = compileComputedExpression(definition.expression),
+                    resolved = expression.pointers.map(x => this.resolveComputedDependency(x, field.ctx.pointer));
+            }
+            catch (e) {
+                debug(`[warn] the computed expression for field "${field.ctx.pointer}" is invalid: ${e.message}`);
+                return;
+            }
+
+            states.push({
+                field,
+                definition,
+                expression,
+                dependencies: resolved.filter(x => x != null),
+                external: resolved.some(x => x == null),
+                overridden: false,
+                value: void 0,
+            });
+        });
+
+        return this.sortComputedFields(states);
+    }
+
+    /**
+     * Sort the computed fields topologically, so fields are always computed after the computed fields they depend on.
+     *
+     * Fields that are part of a dependency cycle are left out (with a warning), as they can never be computed.
+     */
+    private sortComputedFields(states: ComputedFieldState[]): ComputedFieldState[] {
+        var sorted: ComputedFieldState[] = [],
+            visiting: ComputedFieldState[] = [],
+            cyclic: ComputedFieldState[] = [];
+
+        var visit = (state: ComputedFieldState): void => {
+            if (sorted.indexOf(state) > -1 || cyclic.indexOf(state) > -1) {
+                return;
+            }
+
+            var index = visiting.indexOf(state);
+            if (index > -1) {
+                var cycle = visiting.slice(index);
+                cyclic.push(...cycle.filter(x => cyclic.indexOf(x) < 0));
+                debug(`[warn] the computed fields ${cycle.map(x => '"' + x.field.ctx.pointer + '"').join(', ')} depend on each other; they will not be computed.`);
+                return;
+            }
+
+            visiting.push(state);
+            for (var dependency of states.filter(x => state.dependencies.indexOf(x.field.ctx.pointer) > -1)) {
+                visit(dependency);
+            }
+            visiting.pop();
+
+            if (cyclic.indexOf(state) < 0) {
+                sorted.push(state);
+            }
+        };
+        states.forEach(visit);
+
+        // Fields depending on a field in a cycle can't be computed either.
+        return sorted.filter(x => !x.dependencies.some(y => cyclic.some(z => z.field.ctx.pointer === y)));
+    }
+
+    /**
+     * Resolve a pointer in a computed expression to a plain pointer in this form.
+     *
+     * @return The plain pointer or null when the pointer refers to a value outside of this form.
+     */
+    private resolveComputedDependency(pointer: string, relativeToPointer: string): string | null {
+        if (isRelativeJsonPointer(pointer)) {
+            var resolved = resolveRelativePointer(parseRelativePointer(pointer), relativeToPointer);
+            return isDoneResolvingRelativePointer(resolved) && !isKeySelectingRelativePointer(resolved) ? resolved[0] : null;
         }
-        else if (descriptor.type === 'boolean') {
-            return 'CheckboxField';
+        else if (isAbsoluteJsonPointer(pointer)) {
+            var [schemaId, pnt] = parseAbsolutePointer(pointer);
+            return schemaId === this.schema.schemaId ? pnt : null;
         }
+        return fixJsonPointerPath(pointer);
+    }
+//#endregion
 
-        // Safe default (turns into a JSON editor for unknown subschemas)
-        return 'LargeTextField';
+    /**
+     * Find the field type for the given form field, using the field type rules.
+     * @return string the field.type
+     */
+    private _resolveFieldType(descriptor: ExtendedFieldDescriptor): string {
+        return resolveFieldType(descriptor, this.fieldTypeRules);
     }
 
 //#region Form validation
@@ -628,6 +1448,13 @@ export class FieldContextProvider {
      * Validates the form field asynchronously, and sets the viewmodel's validation result object.
      */
     public validateField(field: FormFieldViewModel<FormField<any>>): Promise<FormFieldValidationResult> {
+        return this.notifyValidationRun(this._validateField(field));
+    }
+
+    /**
+     * Validates the form field asynchronously, without notifying the validation summary.
+     */
+    private _validateField(field: FormFieldViewModel<FormField<any>>): Promise<FormFieldValidationResult> {
         if (field.instance == null) {
             return Promise.resolve(field.validation = FieldContextProvider.createPristineFieldvalidationResult());
         }
@@ -639,12 +1466,13 @@ export class FieldContextProvider {
             }
 
             if ((<ValidatableFormField<any>>field.instance).validate) {
-                // Allow the field to handle the validation.
-                return Promise.resolve<FormFieldValidationResult>((<ValidatableFormField<any>>field.instance).validate()).then(x => field.validation = x);
+                // Allow the field to handle the validation, the custom validators still run once the field itself is valid.
+                return Promise.resolve<FormFieldValidationResult>((<ValidatableFormField<any>>field.instance).validate())
+                    .then(x => x == null || !x.valid ? x : this.validateCustomKeywords(field).then(custom => custom || x))
+                    .then(x => field.validation = x);
             }
 
-            return this.validator
-                .then(x => x.validatePointer(field.ctx.pointer, field.instance.value))
+            return this.validateFieldValue(field)
                 .then(valid => {
                     if (!valid.valid) {
                         return field.validation = {
@@ -656,11 +1484,11 @@ export class FieldContextProvider {
                         };
                     }
 
-                    return field.validation = {
+                    return this.validateCustomKeywords(field).then(custom => field.validation = custom || {
                         message: null,
                         valid: true,
                         level: ValidationLevel.Success
-                    };
+                    });
                 });
         }
         catch (e) {
@@ -670,23 +1498,95 @@ export class FieldContextProvider {
     }
 
     /**
-     * Validates the required state of a field.
-     *
-     * @return Returns a formfield validation result if the field validation state can be determined by it's required state, or null otherwise.
+     * Validate the value of the field against the schema, or against the selected variant for fields described using oneOf or anyOf.
      */
-    private _validateRequiredField(field: FormFieldViewModel<FormField<any>>): FormFieldValidationResult {
-        if (this._validationResultIsEmpty(field)) {
-            if (field.ctx.required === true) {
-                // Value is required and the field is empty.
-                return field.validation = {
-                    message: 'Dit veld heeft een waarde nodig.',
-                    valid: false,
-                    level: ValidationLevel.Error
-                };
+    private validateFieldValue(field: FormFieldViewModel<FormField<any>>): Promise<ValidationResult> {
+        var variant = this.getSelectedVariant(field);
+        if (variant != null) {
+            var key = field.ctx.pointer + '#' + variant.id;
+            if (!this.variantValidators[key]) {
+                this.variantValidators[key] = this.validators.getValidator(new SchemaNavigator(this.getOutlinedSchema(variant.schema), void 0, (x: string) => this.cache.getSchema(x)));
             }
-            else {
-                // Validation is not required, because the value can be empty, so well just ignore validation if its not required.
-                return field.validation = FieldContextProvider.createPristineFieldvalidationResult();
+            return this.variantValidators[key].then(x => x.validate(field.instance.value));
+        }
+        return this.validator.then(x => x.validatePointer(field.ctx.pointer, field.instance.value));
+    }
+
+    /**
+     * Run the custom validators that apply to the keywords and format of the given field.
+     *
+     * @return The combined result of all applicable validators that did not pass, or null if they all passed.
+     */
+    private validateCustomKeywords(field: FormFieldViewModel<FormField<any>>): Promise<FormFieldValidationResult | null> {
+        var meta: any = field.ctx.meta,
+            applicable = _.flatten(this.fieldValidators || []).filter(x =>
+                (x.keyword != null && meta[x.keyword] !== void 0) || (x.format != null && meta.format === x.format));
+        if (applicable.length === 0) {
+            return Promise.resolve(null);
+        }
+
+        return Promise.all(applicable.map(validator => {
+            var keyword = validator.keyword != null ? validator.keyword : 'format';
+            return Promise.resolve()
+                .then(() => validator.validate(field.instance.value, meta[keyword], field.ctx))
+                .then(result => this.mapCustomValidatorResult(result, validator));
+        })).then(results => {
+            var failed = results.filter(x => x != null && (!x.valid || x.level === ValidationLevel.Warning));
+            if (failed.length === 0) {
+                return null;
+            }
+
+            return {
+                message: failed.map(x => x.message).filter(x => !_.isEmpty(x)).join(', '),
+                valid: failed.every(x => x.valid),
+                level: _.max(failed.map(x => x.level)),
+            };
+        });
+    }
+
+    /**
+     * Map the result of a custom validator to a field validation result.
+     */
+    private mapCustomValidatorResult(result: FieldValidatorResult, validator: FieldValidatorRegistration): FormFieldValidationResult | null {
+        var keyword = validator.keyword != null ? validator.keyword : validator.format;
+        if (result == null || result === true) {
+            return null;
+        }
+        if (result === false) {
+            return {
+                message: this.translateToken(['validation_message_' + _.snakeCase(keyword).toLowerCase()]),
+                valid: false,
+                level: validator.level != null ? validator.level : ValidationLevel.Error,
+            };
+        }
+        if (typeof result === 'string') {
+            return {
+                message: result,
+                valid: false,
+                level: validator.level != null ? validator.level : ValidationLevel.Error,
+            };
+        }
+        return result as FormFieldValidationResult;
+    }
+
+    /**
+     * Validates the required state of a field.
+     *
+     * @return Returns a formfield validation result if the field validation state can be determined by it's required state, or null otherwise.
+     */
+    private _validateRequiredField(field: FormFieldViewModel<FormField<any>>): FormFieldValidationResult {
+        if (this._validationResultIsEmpty(field)) {
+            if (field.ctx.required === true) {
+                // Value is required and the field is empty.
+                return field.validation = {
+                    message: this.translateToken(['validation_message_required'], 'This field is required.'),
+                    valid: false,
+                    level: ValidationLevel.Error
+                };
+            }
+            else {
+                // Validation is not required, because the value can be empty, so well just ignore validation if its not required.
+                return field.validation = FieldContextProvider.createPristineFieldvalidationResult();
             }
         }
         return null;
@@ -734,15 +1634,15 @@ export class FieldContextProvider {
             fields = Promise.resolve([]);
         }
 
-        return fields.then(results => {
+        return this.notifyValidationRun(fields.then(results => {
             // Only validate the entire fieldset once all individual fields are valid.
             if (results.every(x => x.valid)) {
                 var validation: Promise<ValidationResult>;
                 if (set.pointer.length > 1) {
-                    validation = this.validator.then(x => x.validatePointer(set.pointer, tryPointerGet(this.getData(set.id), set.pointer)));
+                    validation = this.validator.then(x => x.validatePointer(set.pointer, tryPointerGet(this.collectData(set.id), set.pointer)));
                 }
                 else {
-                    validation = this.validator.then(x => x.validate(this.getData()))
+                    validation = this.validator.then(x => x.validate(this.collectData()))
                 }
 
                 return validation.then(valid => {
@@ -769,7 +1669,7 @@ export class FieldContextProvider {
                 });
             }
             return results;
-        });
+        }));
     }
 
     /**
@@ -794,7 +1694,7 @@ export class FieldContextProvider {
      * Force validation on all fields asynchronously.
      */
     public validate(): Promise<FormFieldsetFieldValidationResult[]> {
-        return Promise.all(
+        return this.notifyValidationRun(Promise.all(
             (this.sets as FormFieldSet[]).slice() // Make sure we sort a copy of the original.
                 .sort((a, b) => a.pointer === '/' ? 1 : (b.pointer === '/' ? -1 : 0)) // Make sure the default fieldset is always checked last.
                 .map(set => this.validateFieldset(set, true)) // Validate each fieldset.
@@ -815,7 +1715,111 @@ export class FieldContextProvider {
                 }
             }
             return _.flatten(results); // Create one large list of the results.
+        }));
+    }
+
+    /**
+     * Apply the validation results given by the server (e.g. from a 422 response) to the fields they belong to.
+     *
+     * Results for fields in child contexts are applied to those, and results that do not belong to any field are collected on the fieldset level.
+     *
+     * @param results The validation results given by the server.
+     *
+     * @return The validation results of the fieldsets that received results that did not belong to a field.
+     */
+    public applyServerValidation(results: ServerValidationResult[]): FormFieldsetFieldValidationResult[] {
+        var unmatched = this.applyServerFieldValidation(results.map(x => [serverFieldPathToPointer(x.field), x] as ServerValidationEntry));
+        this.validationRun$.next();
+        if (unmatched.length === 0) {
+            return [];
+        }
+
+        // Collect the remaining results on the fieldset that is the closest data-parent.
+        var grouped = new Map<FormFieldSet, ServerValidationResult[]>();
+        for (var [pointer, result] of unmatched) {
+            var set = _.maxBy(
+                this.sets.filter(x => x.pointer === '/' || pointer === x.pointer || pointer.startsWith(x.pointer + '/')),
+                x => x.pointer.length) || this.sets[0];
+            if (set == null) {
+                debug(`[warn] unable to apply the server validation result for "${result.field}", there are no fieldsets`);
+                continue;
+            }
+            grouped.set(set, (grouped.get(set) || []).concat([result]));
+        }
+
+        var applied: FormFieldsetFieldValidationResult[] = [];
+        grouped.forEach((messages, set) => {
+            applied.push(set.validation = {
+                pointer: set.pointer,
+                message: messages.map(x => x.message).join(', '),
+                valid: false,
+                level: ValidationLevel.Error,
+            } as FormFieldsetFieldValidationResult);
+        });
+        return applied;
+    }
+
+    /**
+     * Apply the given server validation results to the fields in this context, and it's children.
+     *
+     * @param entries Tuples of the JSON-pointer (relative to this context) and the result.
+     *
+     * @return The entries that could not be matched to a field.
+     */
+    protected applyServerFieldValidation(entries: ServerValidationEntry[]): ServerValidationEntry[] {
+        var matched = new Map<FormFieldViewModel<FormField<any>>, ServerValidationResult[]>(),
+            unmatched: ServerValidationEntry[] = [];
+
+        for (var entry of entries) {
+            var field = this.findByPointer(entry[0]);
+            if (field != null) {
+                matched.set(field, (matched.get(field) || []).concat([entry[1]]));
+            }
+            else {
+                unmatched.push(entry);
+            }
+        }
+
+        // Pass the results to the child contexts they belong to.
+        for (var child of this.children) {
+            var belongs = unmatched.filter(([pointer]) => pointer.startsWith(child.pointer + '/'));
+            if (belongs.length === 0) {
+                continue;
+            }
+
+            var remaining = child.context.applyServerFieldValidation(
+                belongs.map(([pointer, result]) => [pointer.substr(child.prefix.length), result] as ServerValidationEntry));
+            unmatched = unmatched
+                .filter(x => belongs.indexOf(x) < 0)
+                .concat(belongs.filter(x => remaining.some(y => y[1] === x[1])));
+        }
+
+        // Results for data within a field (that has no child context) belong to that field.
+        unmatched = unmatched.filter(([pointer, result]) => {
+            var owner = _.maxBy(
+                this.extract(x => x.visible && pointer.startsWith(x.ctx.pointer + '/') ? x : null).filter(x => x != null),
+                x => x.ctx.pointer.length);
+            if (owner == null) {
+                return true;
+            }
+            matched.set(owner, (matched.get(owner) || []).concat([result]));
+            return false;
+        });
+
+        matched.forEach((results, field) => {
+            if (!!field.instance && !!(<ValidatableFormField<any>>field.instance).validateWithServerResult) {
+                field.validation = (<ValidatableFormField<any>>field.instance).validateWithServerResult(results);
+            }
+            else {
+                field.validation = {
+                    message: results.map(x => x.message).join(', '),
+                    valid: false,
+                    level: ValidationLevel.Error,
+                };
+            }
         });
+
+        return unmatched;
     }
 
     /**
@@ -832,9 +1836,75 @@ export class FieldContextProvider {
             valid: valid,
             level: !!valid ? ValidationLevel.Success : level
         };
+        this.validationRun$.next();
         return true;
     }
 
+    /**
+     * Get a summary of the current validation state of all visible fieldsets and fields.
+     */
+    public getValidationSummary(): FormValidationSummary {
+        var summary: FormValidationSummary = {
+            valid: true,
+            errors: 0,
+            warnings: 0,
+            fieldsets: [],
+            invalid: [],
+        };
+
+        for (var set of this.sets) {
+            var setSummary: FormFieldsetValidationSummary = {
+                id: set.id,
+                label: set.label,
+                pointer: set.pointer,
+                valid: true,
+                errors: 0,
+                warnings: 0,
+            };
+
+            // Count both the result of the fieldset itself and the ones of it's fields.
+            var entries = [{ pointer: set.pointer, label: set.label, validation: set.validation }]
+                .concat(set.fields.map(x => ({ pointer: x.ctx.pointer, label: x.label, validation: x.validation })));
+            for (var entry of entries) {
+                if (entry.validation == null) {
+                    continue;
+                }
+                if (entry.validation.level === ValidationLevel.Error) {
+                    setSummary.errors++;
+                }
+                else if (entry.validation.level === ValidationLevel.Warning) {
+                    setSummary.warnings++;
+                }
+                if (!entry.validation.valid) {
+                    setSummary.valid = false;
+                    summary.invalid.push({
+                        pointer: entry.pointer,
+                        label: entry.label,
+                        message: entry.validation.message,
+                        level: entry.validation.level,
+                    });
+                }
+            }
+
+            summary.errors += setSummary.errors;
+            summary.warnings += setSummary.warnings;
+            summary.valid = summary.valid && setSummary.valid;
+            summary.fieldsets.push(setSummary);
+        }
+
+        return summary;
+    }
+
+    /**
+     * Notify the validation summary of a finished validation run.
+     */
+    private notifyValidationRun<T>(run: Promise<T>): Promise<T> {
+        return run.then(result => {
+            this.validationRun$.next();
+            return result;
+        });
+    }
+
     /**
      * Generates an empty/pristine validation result.
      */
@@ -976,13 +2046,100 @@ export class FieldContextProvider {
         return !field.visible || (field.instance !== null && field.instance !== void 0);
     }
 
+    /**
+     * Update the visibility of all fields, based on the visible list and the conditions in the schema.
+     */
+    protected updateFieldVisibility(): void {
+        var hidden: string[] = [];
+        if (this.conditionalRules.length > 0) {
+            hidden = getConditionallyHiddenPointers(this.conditionalRules, this.getConditionData(), this.schema.original, this.resolveSchemaReference);
+        }
+
+        this.changeFieldVisibility(x =>
+            (_.isEmpty(this._visible) || this._visible.indexOf(x.ctx.pointer) > -1) && hidden.indexOf(x.ctx.pointer) < 0 && !this.isHiddenField(x));
+    }
+
+    /**
+     * Update the required state of all fields, based on their descriptor and the conditional required rules in the schema.
+     *
+     * Fields that are no longer required while they failed validation, are validated again.
+     */
+    protected updateFieldRequiredStates(): void {
+        var required: string[] = [];
+        if (this.conditionalRequiredRules.length > 0) {
+            required = getConditionallyRequiredPointers(
+                this.conditionalRequiredRules, this.getConditionData(), this.schema.original, this.resolveSchemaReference);
+        }
+
+        this.each(field => {
+            var isRequired = !!field.ctx.meta.isRequired || required.indexOf(field.ctx.pointer) > -1;
+            if (field.ctx.required === isRequired) {
+                return;
+            }
+
+            field.ctx.required = isRequired;
+            if (!isRequired && field.validation != null && !field.validation.valid) {
+                this.validateField(field).catch(err => {
+                    debug(`[warn] revalidating the field "${field.ctx.pointer}" failed: `, err);
+                });
+            }
+        });
+    }
+
+    /**
+     * Whether the field is hidden from the current user by the field access policy.
+     */
+    public isHiddenField(field: FormFieldViewModel<FormField<any>>): boolean {
+        return !!this.accessPolicy && this.accessPolicy.getAccess(field.ctx.meta, this.mode) === 'hidden';
+    }
+
+    /**
+     * Apply the field access policy again, after it changed.
+     */
+    protected applyAccessPolicy(): void {
+        this.updateReadonlyStates();
+        this.updateFieldVisibility();
+    }
+
+    /**
+     * Get the current data of the form to evaluate the schema conditions against, including the values of fields that are not initialized.
+     */
+    private getConditionData(): any {
+        var data = this.collectData();
+        this.each(field => {
+            if (!field.instance && !pointerHas(data, field.ctx.pointer)) {
+                var value = field.ctx.value !== void 0 ? field.ctx.value : field.ctx.initialValue;
+                if (value !== void 0) {
+                    try {
+                        pointerSet(data, field.ctx.pointer, value);
+                    }
+                    catch (e) { }
+                }
+            }
+        });
+        return data;
+    }
+
     /**
      * Set the field visibility per field.
      *
      * @param iterator
      */
     private changeFieldVisibility(iterator: (field: Readonly<FormFieldViewModel<any>>) => boolean): void {
-        this.each(x => x.visible = iterator(x));
+        var changed = false;
+        this.each(x => {
+            var visible = iterator(x);
+            if (x.visible !== visible) {
+                x.visible = visible;
+                changed = true;
+            }
+        });
+
+        // Only recreate the visible sets when something changed, so the rendered fieldsets are not needlessly recreated.
+        if (!changed) {
+            return;
+        }
+
         (this as any).sets = this.mapped
             .map(x => ({
                     id: x.id,
@@ -1005,6 +2162,78 @@ export class FieldContextProvider {
 //#endregion
 
 //#region Field(set) translation
+    /**
+     * The locale the form is currently translated to.
+     */
+    public get locale(): string {
+        return !!this.translations && this.translations.locale != null ? this.translations.locale : this._locale;
+    }
+    private _locale: string;
+
+    /**
+     * Switch the form, and all it's child contexts, to another locale.
+     *
+     * The labels, descriptions and fieldset titles are translated again, and fields with validation errors are validated again
+     * in order to translate their messages. The field instances and their values are kept.
+     *
+     * @param locale The locale to switch to.
+     *
+     * @return A promise that resolves once the form was translated.
+     */
+    public setLocale(locale: string): Promise<void> {
+        var ready = !!this.translations && !!this.translations.setLocale ? this.translations.setLocale(locale) : void 0;
+        return Promise.resolve(ready).then(() => this.applyLocale(locale));
+    }
+
+    /**
+     * Translate this form and it's child contexts, after the locale was switched.
+     */
+    protected applyLocale(locale: string): void {
+        this._locale = locale;
+        this.retranslate();
+        this.children.forEach(x => x.context.applyLocale(locale));
+        this.localeChanged$.next(locale);
+    }
+
+    /**
+     * Translate the labels, descriptions, fieldset titles and validation messages of the form again.
+     */
+    protected retranslate(): void {
+        this.extractSet(set => {
+            set.label = this.translateFieldsetLabel(set.id);
+            for (var field of set.fields) {
+                var translationObj = this.translateField(set.id, field.ctx.meta);
+                field.label = translationObj.label;
+                field.description = translationObj.description;
+            }
+        });
+
+        // The visible sets are copies of the mapped sets (once the visibility of fields changed), so translate those as well.
+        for (var set of this.sets) {
+            set.label = this.translateFieldsetLabel(set.id);
+        }
+
+        this.each(field => {
+            if (!!field.instance && field.validation != null && !field.validation.valid) {
+                this.validateField(field).catch(err => {
+                    debug(`[warn] revalidating the field "${field.ctx.pointer}" failed: `, err);
+                });
+            }
+        });
+        this.sets.forEach(set => {
+            if (set.validation != null && !set.validation.valid) {
+                this.validateFieldset(set, false)
+                    .then(() => this.mapped.filter(x => x.id === set.id).forEach(x => x.validation = set.validation))
+                    .catch(err => {
+                        debug(`[warn] revalidating the fieldset "${set.id}" failed: `, err);
+                    });
+            }
+        });
+
+        // Emit a summary with the new labels.
+        this.validationRun$.next();
+    }
+
     /**
      * Translate the title of a fieldset.
      */
@@ -1016,6 +2245,15 @@ export class FieldContextProvider {
         return this.translateToken(tokens);
     }
 
+    /**
+     * Translate the label of a wizard step that was defined using the "step" hint of the fields.
+     *
+     * @param stepId The id of the step, used as label when there is no translation for it.
+     */
+    public translateStepLabel(stepId: string): string {
+        return this.translateToken([String(stepId).toLowerCase() + '_step_title'], stepId);
+    }
+
     /**
      * Translate the field using one of the available translation strategies.
      */
@@ -1025,7 +2263,7 @@ export class FieldContextProvider {
             description: this.schema.getFieldDescription(field.name),
         };
 
-        if (!this.translateMessageOrDefault && !this.messages) {
+        if (!this.translateMessageOrDefault && !this.translations) {
             return schemaMessages;
         }
 
@@ -1078,228 +2316,633 @@ export class FieldContextProvider {
     }
 
     /**
-     * Translate token.
+     * Translate the first known token, and interpolate the params into the message.
+     *
+     * Translated messages use the ICU message format, the default message only gets it's "{name}" placeholders replaced
+     * (as it may contain literal braces, e.g. in the pattern of a validation message).
+     *
+     * @param tokens The tokens to try, in order of preference.
+     * @param defaultValue The message to use when none of the tokens are known.
+     * @param params The parameters to interpolate into the message.
+     */
+    private translateToken(tokens: string[], defaultValue?: string, params?: IdentityValues | TranslationParams): string {
+        if (this.translations) {
+            return this.translations.translate(tokens, defaultValue, params);
+        }
+        else if (this.translateMessageOrDefault) {
+            var translated = this.translateMessageOrDefault(tokens, defaultValue, params as IdentityValues);
+            return translated === defaultValue ? interpolateMessage(translated, params) : formatMessage(translated, params, this.locale);
+        }
+        return interpolateMessage(defaultValue, params);
+    }
+
+    /**
+     * Wrap a message bundle in a translation provider, so it can be used like the translation providers.
+     */
+    private static createTranslationProvider(translations: TranslationProvider | TranslationMessageBundle | null | undefined): TranslationProvider | undefined {
+        if (isTranslationMessageBundle(translations)) {
+            return CatalogTranslationProvider.fromMessages(translations.getMessages());
+        }
+        return translations || void 0;
+    }
+//#endregion
+
+//#region Data retrieval methods
+    /**
+     * Get the identity of the current item.
+     */
+    public getIdentity(): EntityIdentity {
+        if (this.isCreateMode() || !this.initialValues) {
+            return null;
+        }
+        try {
+            return this.schema.getIdentityValue(this.initialValues);
+        }
+        catch(e) {
+            return null;
+        }
+    }
+
+    /**
+     * Get the complete edited data object, merged with the initialValue object.
+     *
+     * @param fieldsetId Get the data for a specific fieldset *ONLY*.
+     *
+     * @return The target schema's complete data object, merged with the iniitalValues. (So including properties that do not have a form field.)
+     */
+    public getData(fieldsetId?: string): any {
+        var result = this.collectData(fieldsetId);
+
+        // Leave out the values of fields the user is not allowed to see.
+        if (!!this.accessPolicy) {
+            this.each(field => {
+                if (this.isHiddenField(field) && pointerHas(result, field.ctx.pointer)) {
+                    pointerRemove(result, field.ctx.pointer);
+                }
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Get the complete edited data object, including the values of fields that are hidden by the field access policy.
+     *
+     * Used to validate the form and to evaluate the schema conditions, as the schema applies to the hidden values as well.
      *
-     * @param tokens
+     * @param fieldsetId Get the data for a specific fieldset *ONLY*.
+     */
+    private collectData(fieldsetId?: string): any {
+        var result: any = this.initialValues ? _.cloneDeep(this.initialValues) : {};
+
+        for (var fieldset of this.sets) {
+            if (fieldsetId != null && fieldset.id !== fieldsetId) {
+                continue;
+            }
+
+            if (fieldset.pointer && fieldset.pointer.length > 1 && !pointerHas(result, fieldset.pointer)) {
+                pointerSet(result, fieldset.pointer, {});
+            }
+
+            for (var field of fieldset.fields) {
+                if (!field.ctx.pointer) {
+                    throw new Error('The field by id "${field.ctx.id}" did not have a pointer set; this is required.');
+                }
+
+                if (!!field.instance) {
+                    if (!this.isUndefinedValue(field)) {
+                        pointerSet(result, field.ctx.pointer, field.instance.value);
+                    }
+                    else if (pointerHas(result, field.ctx.pointer)) {
+                        pointerRemove(result, field.ctx.pointer);
+                    }
+                }
+                else if (field.ctx.value !== void 0) {
+                    // The value was changed before the field was initialized (e.g. using addItem).
+                    pointerSet(result, field.ctx.pointer, field.ctx.value);
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Get all values for all fields in the form (the form might not validate for the wrapped schema).
+     *
+     * Use this method when you update the form using partial JSON Objects when creating an object in a REST api, but it can fill in the defaults itself.
+     * Or your forms always contain all properties as fields.
+     *
+     * @param fieldsetId Get the data for a specific fieldset *ONLY*.
+     *
+     * @return The form's data model.
+     */
+    public getFieldData(fieldsetId?: string): any {
+        var result: any = {};
+
+        for (var fieldset of this.sets) {
+            if (fieldsetId != null && fieldset.id !== fieldsetId) {
+                continue;
+            }
+
+            if (fieldset.pointer && fieldset.pointer.length > 1 && !pointerHas(result, fieldset.pointer)) {
+                pointerSet(result, fieldset.pointer, {});
+            }
+
+            for (var field of fieldset.fields) {
+                if (!field.ctx.pointer) {
+                    throw new Error('The field by id "${field.ctx.id}" did not have a pointer set; this is required.');
+                }
+
+                if (!!field.instance) {
+                    if (!this.isUndefinedValue(field)) {
+                        pointerSet(result, field.ctx.pointer, field.instance.value);
+                    }
+                    else if (pointerHas(result, field.ctx.pointer)) {
+                        pointerRemove(result, field.ctx.pointer);
+                    }
+                }
+                else {
+                    var value = field.ctx.value !== void 0 ? field.ctx.value : field.ctx.initialValue;
+                    if (!!field.ctx.pointer) {
+                        pointerSet(result, field.ctx.pointer, value);
+                    }
+                    else {
+                        result[field.ctx.name || field.ctx.id] = value;
+                    }
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Get an object containing only the values of any changed fields.
+     */
+    public getChangedFieldData(): any {
+        var result: any = {};
+
+        for (var fieldset of this.sets) {
+            for (var field of fieldset.fields) {
+                if (!field.ctx.pointer) {
+                    throw new Error('The field by id "${field.ctx.id}" did not have a pointer set; this is required.');
+                }
+
+                if (!!field.instance && !!field.instance.dirty && !this.isUndefinedValue(field)) {
+                    pointerSet(result, field.ctx.pointer, field.instance.value);
+                }
+                else if (this.hasChangedUninitializedValue(field)) {
+                    pointerSet(result, field.ctx.pointer, field.ctx.value);
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Check whether the field value is an empty/voidable value.
+     *
+     * @param field The field to check.
+     */
+    private isUndefinedValue(field: FormFieldViewModel<FormField<any>>): boolean {
+        if (field.ctx.required) {
+            return false;
+        }
+
+        var val = field.instance.value;
+        switch (field.ctx.meta.type) {
+            case 'integer':
+                return val === null || val === void 0;
+            case 'string':
+                return val === '';
+            case 'array':
+                return val == null || val.length === 0;
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Get the data for the form as a list of Json Patch objects.
+     *
+     * @param includeTests  (Optional, default: true) Whether or not to include tests for the old values in the patch object,
+     *                      so that the data only get's altered if the old data is still the same.
+     *
+     * @return The form's data in the form of an patch object.
+     */
+    public getPatchOperations(includeTests: boolean = true): JsonPatchOperation[] {
+        var result: any = [];
+        this.each(field => {
+            if (!!field.instance && !!field.instance.dirty && !this.isHiddenField(field)) {
+                // Check if the field instance implements PatchableFormField<T>
+                if (!!(<PatchableFormField<any>>field.instance).getPatchOperations) {
+                    // Let the field generate the ops
+                    try {
+                        var ops = (<PatchableFormField<any>>field.instance).getPatchOperations(includeTests);
+                        if (!!ops) {
+                            result = result.concat(ops);
+                        }
+                        else {
+                            debug('getPatchObject: Got invalid patch operations list! Something went wrong?');
+                        }
+                    }
+                    catch (e) {
+                        debug(`getPatchObject: Retrieval of patch ops for field "${field.ctx.id}" went wrong: `, e);
+                    }
+                }
+                else {
+                    // Calculate the ops ourselves.
+                    result = result.concat(this.calculatePatchOperations(field, field.instance.initialValue, field.instance.value, includeTests));
+                }
+            }
+            else if (this.hasChangedUninitializedValue(field) && !this.isHiddenField(field)) {
+                result = result.concat(this.calculatePatchOperations(field, field.ctx.initialValue, field.ctx.value, includeTests));
+            }
+        });
+        return result;
+    }
+
+    /**
+     * Calculate the patch operations that change the initial value of a field into the given value.
+     *
+     * @param field The field to calculate the operations for.
+     * @param initialValue The initial value of the field.
+     * @param value The current value of the field.
+     * @param includeTests Whether or not to include tests for the old values.
+     */
+    private calculatePatchOperations(field: FormFieldViewModel<FormField<any>>, initialValue: any, value: any, includeTests: boolean): JsonPatchOperation[] {
+        var result: JsonPatchOperation[] = [],
+            path = field.ctx.pointer || '/' + field.ctx.name, iv;
+
+        try {
+            iv = pointerGet(this.initialValues, path);
+        }
+        catch (e) { }
+
+        var initEmpty = initialValue === void 0 || iv === void 0, changeEmpty = value === void 0;
+
+        if (initEmpty && !changeEmpty) {
+            result.push({ op: 'add', path, value });
+        }
+        else if (!initEmpty && changeEmpty) {
+            if (includeTests) {
+                result.push({ op: 'test', path, value: initialValue });
+            }
+            result.push({ op: 'remove', path });
+        }
+        else if (Array.isArray(initialValue) && Array.isArray(value)) {
+            // Only patch the array items that changed.
+            result = result.concat(diffArrayPatchOperations(path, initialValue, value, this.getArrayIdentityKey(field), includeTests));
+        }
+        else {
+            if (includeTests) {
+                result.push({ op: 'test', path, value: initialValue });
+            }
+            result.push({ op: 'replace', path, value });
+        }
+        return result;
+    }
+
+    /**
+     * Check whether the value of a field was changed before the field was initialized (e.g. using addItem).
+     *
+     * @param field The field to check.
+     */
+    private hasChangedUninitializedValue(field: FormFieldViewModel<FormField<any>>): boolean {
+        return !field.instance && field.ctx.value !== void 0 && !_.isEqual(field.ctx.value, field.ctx.initialValue);
+    }
+//#endregion
+
+//#region Array items
+    /**
+     * Add an item to the array field with the given pointer.
+     *
+     * @param pointer JSON-Pointer to the array field.
+     * @param value (Optional) The new item, defaults to the default value of the items in the schema.
+     * @param index (Optional) The position to insert the item at, defaults to the end of the array.
+     *
+     * @return The index of the new item.
+     */
+    public addItem(pointer: string, value?: any, index?: number): number {
+        var field = this.getArrayField(pointer),
+            items = this.getArrayValue(field);
+
+        if (index == null || index < 0 || index > items.length) {
+            index = items.length;
+        }
+        items.splice(index, 0, value !== void 0 ? _.cloneDeep(value) : this.getDefaultItemValue(field));
+
+        var inserted = index;
+        this.reindexItemContexts(field, i => i >= inserted ? i + 1 : i);
+        this.setFieldValue(field, items);
+        return index;
+    }
+
+    /**
+     * Remove an item from the array field with the given pointer.
+     *
+     * @param pointer JSON-Pointer to the array field.
+     * @param index The index of the item to remove.
+     *
+     * @return The removed item.
+     */
+    public removeItem(pointer: string, index: number): any {
+        var field = this.getArrayField(pointer),
+            items = this.getArrayValue(field);
+
+        if (index < 0 || index >= items.length) {
+            throw new Error(`Unable to remove item ${index} from "${field.ctx.pointer}", it only has ${items.length} items.`);
+        }
+        var removed = items.splice(index, 1)[0];
+
+        this.reindexItemContexts(field, i => i === index ? null : (i > index ? i - 1 : i));
+        this.setFieldValue(field, items);
+        return removed;
+    }
+
+    /**
+     * Move an item of the array field with the given pointer to another position.
+     *
+     * @param pointer JSON-Pointer to the array field.
+     * @param from The current index of the item.
+     * @param to The new index of the item.
+     */
+    public moveItem(pointer: string, from: number, to: number): void {
+        var field = this.getArrayField(pointer),
+            items = this.getArrayValue(field);
+
+        if (from < 0 || from >= items.length || to < 0 || to >= items.length) {
+            throw new Error(`Unable to move item ${from} to ${to} in "${field.ctx.pointer}", it only has ${items.length} items.`);
+        }
+        if (from === to) {
+            return;
+        }
+        items.splice(to, 0, items.splice(from, 1)[0]);
+
+        this.reindexItemContexts(field, i => {
+            if (i === from) {
+                return to;
+            }
+            if (from < to && i > from && i <= to) {
+                return i - 1;
+            }
+            if (from > to && i >= to && i < from) {
+                return i + 1;
+            }
+            return i;
+        });
+        this.setFieldValue(field, items);
+    }
+
+    /**
+     * Get a child context for every item of the array field with the given pointer.
+     *
+     * Changes in the item contexts are written back into the array, the contexts are kept (and re-indexed) by addItem, removeItem and moveItem.
+     *
+     * @param pointer JSON-Pointer to the array field.
+     */
+    public itemContexts(pointer: string): FieldContextProvider[] {
+        var field = this.getArrayField(pointer),
+            items = this.getArrayValue(field);
+
+        // Forget the contexts of items that no longer exist (e.g. because the array was changed by the field itself).
+        this.reindexItemContexts(field, i => i < items.length ? i : null);
+
+        return items.map((x, i) => this.getItemContext(field, i));
+    }
+
+    /**
+     * Get (or create) the child context for the item with the given index.
+     */
+    private getItemContext(field: FormFieldViewModel<FormField<any>>, index: number): FieldContextProvider {
+        var pntr = field.ctx.pointer + '/' + index,
+            existing = this.children.find(x => x.pointer === pntr);
+        if (existing != null) {
+            return existing.context;
+        }
+
+        var schema: any = resolveSubschema(this.schema.original, pntr, this.resolveSchemaReference);
+        if (schema == null) {
+            throw new Error(`Unable to find the schema for the items of "${field.ctx.pointer}"; cannot create a child form context for it.`);
+        }
+
+        // Item contexts are always outlined, so their pointers do not change when the items are re-indexed.
+        return this.createOutlinedChild(schema, pntr, (data, entry) => {
+            var items = this.getArrayValue(field),
+                current = parseInt(entry.pointer.substr(field.ctx.pointer.length + 1), 10);
+            if (current < items.length) {
+                items[current] = data;
+                this.setFieldValue(field, items);
+            }
+        });
+    }
+
+    /**
+     * Create a child context with the given schema as root, of which the values are written back into this form.
+     *
+     * @param schema The schema of the child context.
+     * @param pntr JSON-Pointer to the field the child is created for.
+     * @param write Method that writes the data of the child context into this form.
+     */
+    private createOutlinedChild(schema: JsonSchema, pntr: string, write: (data: any, entry: FieldContextChild) => void): FieldContextProvider {
+        var ctx = this.createChildFromNavigator(new SchemaNavigator(this.getOutlinedSchema(schema), void 0, (x: string) => this.cache.getSchema(x)), pntr),
+            entry = this.children.find(x => x.context === ctx);
+
+        entry.subscription = ctx.fieldChanged$.subscribe(() => write(ctx.collectData(), entry));
+        return ctx;
+    }
+
+    /**
+     * Prepare a sub-schema of this form's schema, so it can be used as the root of a schema navigator.
+     */
+    private getOutlinedSchema(schema: JsonSchema): JsonSchema {
+        var s: any = schema;
+        if (s.id == null && s.$id == null) {
+            // Inline sub-schemas can refer to the definitions of the schema they are defined in.
+            return _.assign({ definitions: (this.schema.original as any).definitions }, s);
+        }
+        return s;
+    }
+
+    /**
+     * Update the pointers of the item contexts (and the contexts nested in the items) of the given array field, or destroy them.
+     *
+     * @param field The array field.
+     * @param reindex Method that returns the new index for an item, or null when the item was removed.
+     */
+    private reindexItemContexts(field: FormFieldViewModel<FormField<any>>, reindex: (index: number) => number | null): void {
+        var prefix = field.ctx.pointer + '/';
+        for (var child of this.children.slice()) {
+            // Match the contexts of the items themselves, and of the fields nested in the items (e.g. "/lines/3/product").
+            var match = child.pointer.startsWith(prefix) ? /^(\d+)(\/.*)?$/.exec(child.pointer.substr(prefix.length)) : null;
+            if (match == null) {
+                continue;
+            }
+
+            var next = reindex(parseInt(match[1], 10));
+            if (next == null) {
+                child.context.destroy();
+                continue;
+            }
+
+            child.pointer = prefix + next + (match[2] || '');
+            if (child.prefix.length > 0) {
+                child.prefix = child.pointer;
+            }
+        }
+    }
+
+    /**
+     * Get the array field with the given pointer.
+     *
+     * @throws Error when the field does not exist, or is not an array.
+     */
+    private getArrayField(pointer: string): FormFieldViewModel<FormField<any>> {
+        var field = this.findByPointer(fixJsonPointerPath(pointer));
+        if (field == null || field.ctx.meta.type !== 'array') {
+            throw new Error(`The given field "${pointer}" does not exist on this form, or is not an array.`);
+        }
+        return field;
+    }
+
+    /**
+     * Get a copy of the current value of an array field.
+     */
+    private getArrayValue(field: FormFieldViewModel<FormField<any>>): any[] {
+        var value = this.getCurrentFieldValue(field);
+        return Array.isArray(value) ? value : [];
+    }
+
+    /**
+     * Get a copy of the current value of a field, whether it is initialized or not.
+     */
+    private getCurrentFieldValue(field: FormFieldViewModel<FormField<any>>): any {
+        return _.cloneDeep(!!field.instance ? field.instance.value : (field.ctx.value !== void 0 ? field.ctx.value : field.ctx.initialValue));
+    }
+
+    /**
+     * Set the new value of a field, whether it is initialized or not.
      */
-    private translateToken(tokens: string[], defaultValue?: string, params?: IdentityValues): string {
-        if (this.translateMessageOrDefault) {
-            return this.translateMessageOrDefault(tokens, defaultValue);
+    private setFieldValue(field: FormFieldViewModel<FormField<any>>, value: any): void {
+        if (!!field.instance) {
+            field.instance.value = value;
         }
-        else if (this.messages) {
-            var messages = this.messages.getMessages();
-            return messages.find(z => z.id === tokens.find(x => _.some(messages, y => y.id === x))).description;
+        else {
+            field.ctx.value = value;
+            this.fieldChanged$.next(field);
         }
     }
-//#endregion
 
-//#region Data retrieval methods
     /**
-     * Get the identity of the current item.
+     * Get the value for a new item in the given array field, based on the items schema.
      */
-    public getIdentity(): EntityIdentity {
-        if (this.isCreateMode() || !this.initialValues) {
+    private getDefaultItemValue(field: FormFieldViewModel<FormField<any>>): any {
+        var schema: any = resolveSubschema(this.schema.original, field.ctx.pointer + '/0', this.resolveSchemaReference);
+        if (schema == null) {
             return null;
         }
-        try {
-            return this.schema.getIdentityValue(this.initialValues);
+        if (schema.default !== void 0) {
+            return _.cloneDeep(schema.default);
         }
-        catch(e) {
-            return null;
+        switch (Array.isArray(schema.type) ? schema.type[0] : schema.type) {
+            case 'object':
+                return {};
+            case 'array':
+                return [];
+            default:
+                return null;
         }
     }
+//#endregion
 
+//#region Variants
     /**
-     * Get the complete edited data object, merged with the initialValue object.
+     * Select another variant for a field that is described using oneOf or anyOf.
      *
-     * @param fieldsetId Get the data for a specific fieldset *ONLY*.
+     * The values that are compatible with the new variant are carried over, and the child context of the previous variant is destroyed.
      *
-     * @return The target schema's complete data object, merged with the iniitalValues. (So including properties that do not have a form field.)
+     * @param pointer JSON-Pointer to the field.
+     * @param variantId The id of the variant to select.
+     *
+     * @return The child context for the selected variant.
      */
-    public getData(fieldsetId?: string): any {
-        var result: any = this.initialValues ? _.cloneDeep(this.initialValues) : {};
-
-        for (var fieldset of this.sets) {
-            if (fieldsetId != null && fieldset.id !== fieldsetId) {
-                continue;
-            }
+    public selectVariant(pointer: string, variantId: string): FieldContextProvider {
+        var field = this.findByPointer(fixJsonPointerPath(pointer));
+        if (field == null || !field.variants) {
+            throw new Error(`The given field "${pointer}" does not exist on this form, or does not have variants.`);
+        }
 
-            if (fieldset.pointer && fieldset.pointer.length > 1 && !pointerHas(result, fieldset.pointer)) {
-                pointerSet(result, fieldset.pointer, {});
-            }
+        var variant = field.variants.find(x => x.id === variantId);
+        if (variant == null) {
+            throw new Error(`The field "${pointer}" does not have a variant "${variantId}".`);
+        }
+        if (field.variant === variant.id) {
+            return this.getVariantContext(field.ctx.pointer);
+        }
 
-            for (var field of fieldset.fields) {
-                if (!field.ctx.pointer) {
-                    throw new Error('The field by id "${field.ctx.id}" did not have a pointer set; this is required.');
-                }
+        // Remap the child context; the previous one describes the wrong fields.
+        this.children.filter(x => x.pointer === field.ctx.pointer).forEach(x => x.context.destroy());
 
-                if (!!field.instance) {
-                    if (!this.isUndefinedValue(field)) {
-                        pointerSet(result, field.ctx.pointer, field.instance.value);
-                    }
-                    else if (pointerHas(result, field.ctx.pointer)) {
-                        pointerRemove(result, field.ctx.pointer);
-                    }
-                }
-            }
-        }
+        field.variant = variant.id;
+        field.validation = FieldContextProvider.createPristineFieldvalidationResult();
+        this.setFieldValue(field, convertToSchemaVariant(this.getCurrentFieldValue(field), variant, this.schema.original, this.resolveSchemaReference));
 
-        return result;
+        return this.getVariantContext(field.ctx.pointer);
     }
 
     /**
-     * Get all values for all fields in the form (the form might not validate for the wrapped schema).
-     *
-     * Use this method when you update the form using partial JSON Objects when creating an object in a REST api, but it can fill in the defaults itself.
-     * Or your forms always contain all properties as fields.
+     * Get (or create) the child context for the selected variant of a field that is described using oneOf or anyOf.
      *
-     * @param fieldsetId Get the data for a specific fieldset *ONLY*.
+     * @param pointer JSON-Pointer to the field.
      *
-     * @return The form's data model.
+     * @return The child context, or null when no variant is selected.
      */
-    public getFieldData(fieldsetId?: string): any {
-        var result: any = {};
-
-        for (var fieldset of this.sets) {
-            if (fieldsetId != null && fieldset.id !== fieldsetId) {
-                continue;
-            }
-
-            if (fieldset.pointer && fieldset.pointer.length > 1 && !pointerHas(result, fieldset.pointer)) {
-                pointerSet(result, fieldset.pointer, {});
-            }
-
-            for (var field of fieldset.fields) {
-                if (!field.ctx.pointer) {
-                    throw new Error('The field by id "${field.ctx.id}" did not have a pointer set; this is required.');
-                }
-
-                if (!!field.instance) {
-                    if (!this.isUndefinedValue(field)) {
-                        pointerSet(result, field.ctx.pointer, field.instance.value);
-                    }
-                    else if (pointerHas(result, field.ctx.pointer)) {
-                        pointerRemove(result, field.ctx.pointer);
-                    }
-                }
-                else {
-                    if (!!field.ctx.pointer) {
-                        pointerSet(result, field.ctx.pointer, field.ctx.initialValue);
-                    }
-                    else {
-                        result[field.ctx.name || field.ctx.id] = field.ctx.initialValue;
-                    }
-                }
-            }
+    public getVariantContext(pointer: string): FieldContextProvider | null {
+        var field = this.findByPointer(fixJsonPointerPath(pointer)),
+            variant = field != null ? this.getSelectedVariant(field) : null;
+        if (variant == null) {
+            return null;
         }
 
-        return result;
+        var existing = this.children.find(x => x.pointer === field.ctx.pointer);
+        if (existing != null) {
+            return existing.context;
+        }
+        return this.createOutlinedChild(variant.schema, field.ctx.pointer, data => this.setFieldValue(field, data));
     }
 
     /**
-     * Get an object containing only the values of any changed fields.
+     * Get the selected variant of the given field.
      */
-    public getChangedFieldData(): any {
-        var result: any = {};
-
-        for (var fieldset of this.sets) {
-            for (var field of fieldset.fields) {
-                if (!field.ctx.pointer) {
-                    throw new Error('The field by id "${field.ctx.id}" did not have a pointer set; this is required.');
-                }
-
-                if (!!field.instance && !!field.instance.dirty && !this.isUndefinedValue(field)) {
-                    pointerSet(result, field.ctx.pointer, field.instance.value);
-                }
-            }
-        }
-
-        return result;
+    private getSelectedVariant(field: FormFieldViewModel<FormField<any>>): SchemaVariant | null {
+        return !!field.variants && field.variant != null ? field.variants.find(x => x.id === field.variant) || null : null;
     }
 
     /**
-     * Check whether the field value is an empty/voidable value.
-     *
-     * @param field The field to check.
+     * Get the variants of a field that is described using oneOf or anyOf.
      */
-    private isUndefinedValue(field: FormFieldViewModel<FormField<any>>): boolean {
-        if (field.ctx.required) {
-            return false;
+    private getFieldVariants(field: ExtendedFieldDescriptor): SchemaVariant[] | null {
+        try {
+            var schema = resolveSubschema(this.schema.original, field.pointer, this.resolveSchemaReference);
+            return schema != null ? getSchemaVariants(schema, this.schema.original, this.resolveSchemaReference) : null;
         }
-
-        var val = field.instance.value;
-        switch (field.ctx.meta.type) {
-            case 'integer':
-                return val === null || val === void 0;
-            case 'string':
-                return val === '';
-            case 'array':
-                return val == null || val.length === 0;
-            default:
-                return false;
+        catch (e) {
+            debug(`[warn] unable to determine the variants of field "${field.pointer}"`, e);
+            return null;
         }
     }
+//#endregion
 
     /**
-     * Get the data for the form as a list of Json Patch objects.
-     *
-     * @param includeTests  (Optional, default: true) Whether or not to include tests for the old values in the patch object,
-     *                      so that the data only get's altered if the old data is still the same.
+     * Get the name of the property that identifies the items of an array field, as set in the "field.identityKey" hint of the schema.
      *
-     * @return The form's data in the form of an patch object.
+     * @param field The array field.
      */
-    public getPatchOperations(includeTests: boolean = true): JsonPatchOperation[] {
-        var result: any = [];
-        this.each(field => {
-            if (!!field.instance && !!field.instance.dirty) {
-                // Check if the field instance implements PatchableFormField<T>
-                if (!!(<PatchableFormField<any>>field.instance).getPatchOperations) {
-                    // Let the field generate the ops
-                    try {
-                        var ops = (<PatchableFormField<any>>field.instance).getPatchOperations(includeTests);
-                        if (!!ops) {
-                            result = result.concat(ops);
-                        }
-                        else {
-                            debug('getPatchObject: Got invalid patch operations list! Something went wrong?');
-                        }
-                    }
-                    catch (e) {
-                        debug(`getPatchObject: Retrieval of patch ops for field "${field.ctx.id}" went wrong: `, e);
-                    }
-                }
-                else {
-                    // Calculate the ops ourselves.
-                    var path = field.ctx.pointer || '/' + field.ctx.name, iv;
-
-                    try {
-                        iv = pointerGet(this.initialValues, path);
-                    }
-                    catch (e) { }
-
-                    var initEmpty = field.instance.initialValue === void 0 || iv === void 0, changeEmpty = field.instance.value === void 0;
-
-                    if (initEmpty && !changeEmpty) {
-                        result.push({ op: 'add', path, value: field.instance.value });
-                    }
-                    else if (!initEmpty && changeEmpty) {
-                        if (includeTests) {
-                            result.push({ op: 'test', path, value: field.instance.initialValue });
-                        }
-                        result.push({ op: 'remove', path });
-                    }
-                    else {
-                        if (includeTests) {
-                            result.push({ op: 'test', path, value: field.instance.initialValue });
-                        }
-                        result.push({ op: 'replace', path, value: field.instance.value });
-                    }
-                }
-            }
-        });
-        return result;
+    private getArrayIdentityKey(field: FormFieldViewModel<FormField<any>>): string | undefined {
+        var hints: any = field.ctx.meta.field;
+        return !!hints && typeof hints.identityKey === 'string' ? hints.identityKey : void 0;
     }
-//#endregion
 
     /**
      * Create an field context provider form an schema and this instance's initial values.
@@ -1346,7 +2989,7 @@ export class FieldContextProvider {
             }
         }
         else if (!this.isLoading()) {
-            initialValues = this.getData();
+            initialValues = this.collectData();
         }
 
         // Determine the mode to create it in
@@ -1360,9 +3003,12 @@ export class FieldContextProvider {
         )) { // The key doesn't yet exist, and is therefore new.
             mode = 'create';
         }
+        var isNew = mode === 'create' && !this.isCreateMode();
 
         // Create the child context
-        var ctx = new FieldContextProvider(schema, this.cache, this.validators, mode, initialValues, this, this.translateMessageOrDefault, this.messages);
+        var ctx = new FieldContextProvider(
+            schema, this.cache, this.validators, mode, initialValues, this, this.translateMessageOrDefault, this.translations, void 0, void 0, this.fieldValidators, this.fieldTypeRules, this.accessPolicy);
+        ctx._locale = this._locale;
 
         // Copy the visible properties that are relevant.
         if (!_.isEmpty(this.visible)) {
@@ -1375,9 +3021,30 @@ export class FieldContextProvider {
             }
         }
 
+        this.children.push({
+            pointer: pntr,
+            prefix: schema.propertyPrefix === pntr + '/' ? '' : pntr,
+            context: ctx,
+            field,
+            isNew,
+        });
+
         return ctx;
     }
 
+    /**
+     * Forget about the given child context (e.g. because it was destroyed).
+     */
+    protected removeChild(context: FieldContextProvider): void {
+        var index = this.children.findIndex(x => x.context === context);
+        if (index > -1) {
+            if (!!this.children[index].subscription) {
+                this.children[index].subscription.unsubscribe();
+            }
+            this.children.splice(index, 1);
+        }
+    }
+
     /**
      * Create an field context provider form an agent and this instance's initial values.
      */
@@ -1395,26 +3062,32 @@ export class FieldContextProvider {
      */
     public createChildFromPointer(pointer: string): FieldContextProvider {
         var pnt = fixJsonPointerPath(pointer),
-            sub = this.schema.getFieldDescriptorForPointer(pnt);
+            field = this.findByPointer(pnt);
+
+        // Fields described using oneOf or anyOf get a child context for the selected variant.
+        if (field != null && !!field.variants) {
+            if (this.getSelectedVariant(field) == null) {
+                // The value does not belong to any of the variants (e.g. because it is empty), continue with the default one.
+                field.variant = getDefaultSchemaVariant(field.variants, field.ctx.meta.default, this.schema.original, this.resolveSchemaReference).id;
+            }
+            return this.getVariantContext(pnt);
+        }
+
+        var sub = this.schema.getFieldDescriptorForPointer(pnt);
 
         // Check property validity
         if (sub.length === 0) {
             throw new Error(`Couldn\'t create a child field-context-provider, the pointer "${pointer}" most likely doesn\'t exist.`);
         }
-        if (sub.length > 1) {
-            // Friendly reminder about the successrate of this code-path
-            debug(`[warn] PRE-ALPHA FUNCTIONALITY; having multiple definitions for a single field is not tested!`);
-        }
 
-        // Check if the field refers to an external schema.
-        if (sub[0].$ref) {
-            if (sub.length > 1) {
-                console.warn(`PRE-ALPHA FUNCTIONALITY! having multiple schema definitions, with one external ref (especially if it is not embedded in the same schema, will most likely fail spectacularly.`);
-            }
+        // Fields with multiple definitions (e.g. using allOf) are merged into one.
+        var descriptor = sub.length > 1 ? this.mergeDescriptors(sub) : sub[0];
 
-            var schema = this.cache.getSchema(sub[0].$ref);
+        // Check if the field refers to an external schema.
+        if (descriptor.$ref) {
+            var schema = this.cache.getSchema(descriptor.$ref);
             if (schema == null) {
-                throw new Error(`Unable to find the schema with id "${sub[0].$ref}" for child-context with pointer "${pointer}".`);
+                throw new Error(`Unable to find the schema with id "${descriptor.$ref}" for child-context with pointer "${pointer}".`);
             }
 
             return this.createChildFromNavigator(new SchemaNavigator(schema, void 0, x => this.cache.getSchema(x)), pnt);
@@ -1429,16 +3102,20 @@ export class FieldContextProvider {
      */
     public static createFromAgent(
         agent: EndpointSchemaAgent,
-        trans: MessageBundle | translateMessageOrDefaultFunc,
+        trans: TranslationProvider | TranslationMessageBundle | translateMessageOrDefaultFunc,
         mode: FormModes = 'edit',
         initialValues?: any,
         parent?: FieldContextProvider,
         readonlyFields?: string[],
+        drafts?: FormDraftStore,
+        fieldValidators?: FieldValidatorRegistration[],
+        fieldTypeRules?: FieldTypeRule[],
+        accessPolicy?: FieldAccessPolicy,
     ): FieldContextProvider {
-        if (trans instanceof MessageBundle) {
-            return new FieldContextProvider(agent.schema, agent['cache'], agent.validators, mode, initialValues, parent, void 0, trans as MessageBundle, readonlyFields);
+        if (typeof trans !== 'function') {
+            return new FieldContextProvider(agent.schema, agent['cache'], agent.validators, mode, initialValues, parent, void 0, trans as TranslationProvider | TranslationMessageBundle, readonlyFields, drafts, fieldValidators, fieldTypeRules, accessPolicy);
         }
-        return new FieldContextProvider(agent.schema, agent['cache'], agent.validators, mode, initialValues, parent, trans as translateMessageOrDefaultFunc, void 0, readonlyFields);
+        return new FieldContextProvider(agent.schema, agent['cache'], agent.validators, mode, initialValues, parent, trans as translateMessageOrDefaultFunc, void 0, readonlyFields, drafts, fieldValidators, fieldTypeRules, accessPolicy);
     }
 }
 
@@ -1501,6 +3178,16 @@ export interface FormFieldViewModel<T extends FormField<any>> {
      */
     instance?: T;
 
+    /**
+     * The variants of a field that is described using oneOf or anyOf.
+     */
+    variants?: SchemaVariant[];
+
+    /**
+     * The id of the selected variant (for fields with variants); change it using FieldContextProvider.selectVariant().
+     */
+    variant?: string;
+
     /**
      * Instance of the field to track the value for the field etc.
      */
@@ -1509,4 +3196,114 @@ export interface FormFieldViewModel<T extends FormField<any>> {
 
 type initialFieldValueFetcher = (field: ExtendedFieldDescriptor) => any;
 
+/**
+ * The result of rebasing a form on a newer version of the entity.
+ */
+export interface FormRebaseResult {
+    /**
+     * Pointers of the fields that took the new value.
+     */
+    updated: string[];
+
+    /**
+     * Fields that were changed both by the user and on the server.
+     */
+    conflicts: FormFieldConflict[];
+}
+
+/**
+ * A field that was changed both by the user and on the server.
+ */
+export interface FormFieldConflict {
+    /**
+     * Pointer to the conflicting field.
+     */
+    pointer: string;
+
+    /**
+     * The label of the conflicting field.
+     */
+    label: string;
+
+    /**
+     * The value of the field before either change.
+     */
+    base: any;
+
+    /**
+     * The value the user entered.
+     */
+    local: any;
+
+    /**
+     * The new value on the server.
+     */
+    remote: any;
+}
+
+/**
+ * A server validation result with the JSON-Pointer it applies to.
+ */
+type ServerValidationEntry = [string, ServerValidationResult];
+
+/**
+ * Registration of a child context.
+ */
+interface FieldContextChild {
+    /**
+     * The JSON-Pointer (in the parent) the child was created for.
+     */
+    pointer: string;
+
+    /**
+     * The part of the parent's pointers that has to be stripped to get the pointers in the child context.
+     */
+    prefix: string;
+
+    /**
+     * The child context itself.
+     */
+    context: FieldContextProvider;
+
+    /**
+     * The field (in the parent) the child was created for.
+     */
+    field: FormFieldViewModel<FormField<any>>;
+
+    /**
+     * Whether the child was created for a key that did not exist yet (and is therefore in create mode).
+     */
+    isNew: boolean;
+
+    /**
+     * Subscription that writes the values of an array item context back into the array.
+     */
+    subscription?: Subscription;
+}
+
+/**
+ * State of a computed field.
+ */
+interface ComputedFieldState {
+    field: FormFieldViewModel<FormField<any>>;
+    definition: ComputedFieldDefinition;
+    expression: CompiledComputedExpression;
+    /**
+     * Plain pointers of the fields in this form that the computed value depends on.
+     */
+    dependencies: string[];
+    /**
+     * Whether the expression also depends on values outside of this form.
+     */
+    external: boolean;
+    /**
+     * Whether the user has overridden the computed value.
+     */
+    overridden: boolean;
+    /**
+     * The last computed value.
+     */
+    value: any;
+}
+
 export type translateMessageOrDefaultFunc = (tokens: string[], placeholder?: string, params?: IdentityValues) => string;
@@ -0,0 +1,76 @@
+import { isComposedSchemaPointer, mergeFieldDescriptors } from './field-descriptor-merging';
+
+describe('field-descriptor-merging', () => {
+    describe('mergeFieldDescriptors', () => {
+        it('returns a single descriptor as it is', () => {
+            var descriptor: any = { pointer: '/name', type: 'string' };
+
+            expect(mergeFieldDescriptors([descriptor]).descriptor).toBe(descriptor);
+        });
+
+        it('intersects the constraints and combines the required properties', () => {
+            var result = mergeFieldDescriptors([
+                { pointer: '/code', title: 'Code', type: ['string', 'null'], minLength: 2, maxLength: 10, required: ['a'] },
+                { pointer: '/code', title: 'Other', type: 'string', minLength: 3, maxLength: 8, required: ['b'], isRequired: true },
+            ] as any[]);
+
+            expect(result.conflicts).toEqual([]);
+            expect(result.descriptor).toEqual(jasmine.objectContaining({
+                title: 'Code', type: 'string', minLength: 3, maxLength: 8, required: ['a', 'b'], isRequired: true,
+            }) as any);
+        });
+
+        it('intersects enums and combines field hints', () => {
+            var result = mergeFieldDescriptors([
+                { pointer: '/size', enum: ['s', 'm', 'l'], field: { type: 'SelectField' } },
+                { pointer: '/size', enum: ['m', 'l', 'xl'], field: { placeholder: 'Size' } },
+            ] as any[]);
+
+            expect((result.descriptor as any).enum).toEqual(['m', 'l']);
+            expect((result.descriptor as any).field).toEqual({ type: 'SelectField', placeholder: 'Size' });
+        });
+
+        it('reports keywords that cannot be combined', () => {
+            var result = mergeFieldDescriptors([
+                { pointer: '/code', type: 'string', pattern: '^[a-z]{2,3}$', minimum: 5, field: { type: 'TextField' } },
+                { pointer: '/code', type: 'number', pattern: '^[A-Z]+$', maximum: 1, field: { type: 'NumberField' } },
+            ] as any[]);
+
+            expect(result.conflicts.map(x => x.keyword)).toEqual(['pattern', 'minimum', 'type', 'field.type']);
+            expect(result.conflicts[0]).toEqual({ pointer: '/code', keyword: 'pattern', values: ['^[a-z]{2,3}$', '^[A-Z]+$'] });
+            expect((result.descriptor as any).pattern).toBe('^[a-z]{2,3}$');
+        });
+
+        it('throws when there are no descriptors', () => {
+            expect(() => mergeFieldDescriptors([])).toThrowError(/at least one descriptor/);
+        });
+    });
+
+    describe('isComposedSchemaPointer', () => {
+        var root: any = {
+            definitions: {
+                named: { properties: { name: { type: 'string' } } },
+                address: { allOf: [{ properties: { city: { type: 'string' } } }, { properties: { city: { minLength: 2 } } }] },
+            },
+            properties: {
+                plain: { type: 'string' },
+                referenced: { $ref: '#/definitions/named' },
+                extended: { $ref: '#/definitions/named', title: 'Extended' },
+                address: { $ref: '#/definitions/address' },
+                lines: { type: 'array', items: { allOf: [{ $ref: '#/definitions/named' }, { required: ['name'] }] } },
+            },
+        };
+
+        it('is false for fields that are described once', () => {
+            expect(isComposedSchemaPointer(root, '/plain')).toBe(false);
+            expect(isComposedSchemaPointer(root, '/referenced/name')).toBe(false);
+            expect(isComposedSchemaPointer(root, '/unknown')).toBe(false);
+        });
+
+        it('is true for fields using allOf or a $ref with siblings, or nested in such a schema', () => {
+            expect(isComposedSchemaPointer(root, '/extended')).toBe(true);
+            expect(isComposedSchemaPointer(root, '/address/city')).toBe(true);
+            expect(isComposedSchemaPointer(root, '/lines/0/name')).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,218 @@
+import { ExtendedFieldDescriptor, JsonSchema } from 'json-schema-services';
+
+import { SchemaReferenceResolver, dereferenceSchema } from './schema-conditions';
+
+import * as _ from 'lodash';
+
+/**
+ * A keyword for which the descriptors of a field specify values that cannot be combined.
+ */
+export interface FieldDescriptorConflict {
+    /**
+     * JSON-Pointer to the field.
+     */
+    pointer: string;
+
+    /**
+     * The conflicting keyword (hints are prefixed with "field.").
+     */
+    keyword: string;
+
+    /**
+     * The conflicting values, in the order of the descriptors.
+     */
+    values: any[];
+}
+
+/**
+ * The result of merging the descriptors of a field.
+ */
+export interface MergedFieldDescriptor {
+    /**
+     * The effective descriptor of the field.
+     */
+    descriptor: ExtendedFieldDescriptor;
+
+    /**
+     * The keywords that could not be combined; for these the value of the first descriptor is used.
+     */
+    conflicts: FieldDescriptorConflict[];
+}
+
+/**
+ * Keywords of which the highest value is the effective lower bound.
+ */
+const lowerBoundKeywords = ['minimum', 'exclusiveMinimum', 'minLength', 'minItems', 'minProperties'];
+
+/**
+ * Keywords of which the lowest value is the effective upper bound.
+ */
+const upperBoundKeywords = ['maximum', 'exclusiveMaximum', 'maxLength', 'maxItems', 'maxProperties'];
+
+/**
+ * Keywords that apply when any of the descriptors sets them.
+ */
+const flagKeywords = ['uniqueItems', 'readOnly', 'writeOnly'];
+
+/**
+ * Keywords that can only be combined when all descriptors that specify them agree.
+ */
+const exclusiveKeywords = ['const', 'pattern', 'format', 'multipleOf', '$ref', 'items'];
+
+/**
+ * Pairs of lower and upper bound keywords that are checked for contradictions after merging.
+ */
+const boundPairs: [string, string][] = [['minimum', 'maximum'], ['minLength', 'maxLength'], ['minItems', 'maxItems'], ['minProperties', 'maxProperties']];
+
+/**
+ * Merge the descriptors of a field (e.g. from allOf composition) into one effective descriptor.
+ *
+ * Required properties are combined, constraints are intersected and field hints are combined.
+ * Annotations (title, description, default, ...) and hints are taken from the first descriptor that specifies them.
+ *
+ * @param descriptors The descriptors of the field, in the order they were found in the schema.
+ *
+ * @return The merged descriptor, and the keywords that could not be combined.
+ */
+export function mergeFieldDescriptors(descriptors: ExtendedFieldDescriptor[]): MergedFieldDescriptor {
+    if (!Array.isArray(descriptors) || descriptors.length === 0) {
+        throw new Error('Unable to merge field descriptors; at least one descriptor is required.');
+    }
+    if (descriptors.length === 1) {
+        return { descriptor: descriptors[0], conflicts: [] };
+    }
+
+    var sources: any[] = descriptors,
+        pointer: string = sources[0].pointer,
+        conflicts: FieldDescriptorConflict[] = [],
+        conflict = (keyword: string, values: any[]) => conflicts.push({ pointer, keyword, values }),
+        merged: any = _.assign({}, ...sources.slice().reverse()),
+        defined = (keyword: string) => sources.map(x => x[keyword]).filter(x => x !== void 0);
+
+    merged.isRequired = sources.some(x => !!x.isRequired);
+    merged.required = _.union(...sources.map(x => Array.isArray(x.required) ? x.required : []));
+    if (merged.required.length === 0) {
+        delete merged.required;
+    }
+
+    // Intersect the constraints.
+    for (var keyword of lowerBoundKeywords) {
+        mergeBound(merged, keyword, defined(keyword), Math.max);
+    }
+    for (var keyword of upperBoundKeywords) {
+        mergeBound(merged, keyword, defined(keyword), Math.min);
+    }
+    for (var keyword of flagKeywords) {
+        if (defined(keyword).length > 0) {
+            merged[keyword] = defined(keyword).some(x => !!x);
+        }
+    }
+    for (var keyword of exclusiveKeywords) {
+        var values = defined(keyword);
+        if (_.uniqWith(values, _.isEqual).length > 1) {
+            conflict(keyword, values);
+        }
+    }
+    for (var [lower, upper] of boundPairs) {
+        if (typeof merged[lower] === 'number' && typeof merged[upper] === 'number' && merged[lower] > merged[upper]) {
+            conflict(lower, [merged[lower], merged[upper]]);
+        }
+    }
+
+    var types = defined('type').map(x => Array.isArray(x) ? x : [x]);
+    if (types.length > 0) {
+        var type = _.intersection(...types);
+        if (type.length === 0) {
+            conflict('type', defined('type'));
+        }
+        else {
+            merged.type = type.length === 1 ? type[0] : type;
+        }
+    }
+
+    var enums = defined('enum').filter(x => Array.isArray(x));
+    if (enums.length > 0) {
+        var options = _.intersectionWith(...enums, _.isEqual);
+        if (options.length === 0) {
+            conflict('enum', enums);
+        }
+        else {
+            merged.enum = options;
+        }
+    }
+
+    if (defined('properties').length > 0) {
+        merged.properties = _.assign({}, ...defined('properties').reverse());
+    }
+
+    // Combine the field hints.
+    var hints = defined('field');
+    if (hints.length > 0) {
+        merged.field = _.assign({}, ...hints.slice().reverse());
+        for (var key of _.union(...hints.map(x => Object.keys(x)))) {
+            var hinted = hints.map(x => x[key]).filter(x => x !== void 0);
+            if (_.uniqWith(hinted, _.isEqual).length > 1) {
+                conflict('field.' + key, hinted);
+            }
+        }
+    }
+
+    return { descriptor: merged, conflicts };
+}
+
+/**
+ * Check whether the field at the given pointer is (or may be) described more than once in the schema.
+ *
+ * That is the case when the schema of the field, or of one of the objects it is nested in, uses allOf or a $ref with sibling keywords.
+ *
+ * @param root The root schema.
+ * @param pointer JSON-Pointer to the field.
+ * @param resolver Resolver for references to other schemas.
+ */
+export function isComposedSchemaPointer(root: JsonSchema, pointer: string, resolver?: SchemaReferenceResolver): boolean {
+    var current: any = root,
+        segments = String(pointer).split('/').filter(x => x.length > 0);
+
+    for (var i = 0; _.isPlainObject(current); i++) {
+        var resolved = dereferenceSchema(current, root, resolver);
+        if (isComposedSchema(current) || (_.isPlainObject(resolved) && isComposedSchema(resolved))) {
+            return true;
+        }
+        if (!_.isPlainObject(resolved) || i === segments.length) {
+            return false;
+        }
+
+        var segment = segments[i].replace(/~1/g, '/').replace(/~0/g, '~');
+        if (resolved.properties != null && resolved.properties[segment] != null) {
+            current = resolved.properties[segment];
+        }
+        else if (resolved.items != null && /^\d+$/.test(segment)) {
+            current = Array.isArray(resolved.items) ? resolved.items[parseInt(segment, 10)] : resolved.items;
+        }
+        else {
+            current = resolved.additionalProperties;
+        }
+    }
+    return false;
+}
+
+/**
+ * Check whether the given schema combines several schemas (allOf, or a $ref with sibling keywords).
+ */
+function isComposedSchema(schema: any): boolean {
+    return Array.isArray(schema.allOf) || (typeof schema.$ref === 'string' && Object.keys(schema).some(x => x !== '$ref'));
+}
+
+/**
+ * Set the effective (numeric) bound of the given keyword.
+ */
+function mergeBound(merged: any, keyword: string, values: any[], pick: (...values: number[]) => number): void {
+    var numbers = values.filter(x => typeof x === 'number');
+    if (numbers.length > 0) {
+        merged[keyword] = pick(...numbers);
+    }
+    else if (values.length > 0) {
+        // Boolean form of exclusiveMinimum/exclusiveMaximum (draft 4).
+        merged[keyword] = values.some(x => !!x);
+    }
+}
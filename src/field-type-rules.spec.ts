@@ -0,0 +1,75 @@
+import { resolveFieldType } from './field-type-rules';
+
+/**
+ * The if/else chain that determined the field type before the rules were introduced.
+ */
+function legacyFieldType(descriptor: any): string {
+    var items = Array.isArray(descriptor.items) ? descriptor.items[0] : descriptor.items;
+    if (descriptor.enum != null) {
+        return 'EnumDropdownField';
+    }
+    else if (descriptor.type === 'object' && descriptor.patternProperties != null) {
+        return 'InlineTabField';
+    }
+    else if (descriptor.type === 'array' && !!items && items.type === 'object') {
+        return 'InlineListField';
+    }
+    else if (descriptor.type === 'array' && !!items && (items.type === 'integer' || items.type === 'string')) {
+        return 'SelectField';
+    }
+    else if (descriptor.type === 'string') {
+        return descriptor.format === 'date-time' || descriptor.format === 'iso8601' ? 'DateTimeField' : 'TextField';
+    }
+    else if (descriptor.type === 'integer' || descriptor.type === 'number') {
+        return 'NumericField';
+    }
+    else if (descriptor.type === 'boolean') {
+        return 'CheckboxField';
+    }
+    return 'LargeTextField';
+}
+
+describe('resolveFieldType', () => {
+    it('resolves the same field types as the former if/else chain', () => {
+        var descriptors: any[] = [
+            { type: 'string', enum: ['a', 'b'] },
+            { type: 'integer', enum: [1, 2] },
+            { type: 'object', patternProperties: { '^x-': {} } },
+            { type: 'object' },
+            { type: 'array', items: { type: 'object' } },
+            { type: 'array', items: [{ type: 'object' }] },
+            { type: 'array', items: { type: 'string' } },
+            { type: 'array', items: [{ type: 'integer' }] },
+            { type: 'array', items: { type: 'boolean' } },
+            { type: 'string' },
+            { type: 'string', format: 'date-time' },
+            { type: 'string', format: 'iso8601' },
+            { type: 'string', format: 'email' },
+            { type: 'integer' },
+            { type: 'number' },
+            { type: 'boolean' },
+            { type: 'null' },
+            {},
+        ];
+
+        for (var descriptor of descriptors) {
+            expect(resolveFieldType(descriptor)).toBe(legacyFieldType(descriptor), JSON.stringify(descriptor));
+        }
+    });
+
+    it('uses the explicit field type', () => {
+        expect(resolveFieldType({ type: 'string', field: { type: 'ColorField' } } as any)).toBe('ColorField');
+    });
+
+    it('evaluates custom rules without a priority before the default rules', () => {
+        var rules = [{ fieldType: 'ColorField', format: 'color' }];
+
+        expect(resolveFieldType({ type: 'string', format: 'color' } as any, rules)).toBe('ColorField');
+        expect(resolveFieldType({ type: 'string' } as any, rules)).toBe('TextField');
+    });
+
+    it('orders custom rules by priority, before default rules with the same priority', () => {
+        expect(resolveFieldType({ type: 'string', format: 'color' } as any, [{ fieldType: 'ColorField', format: 'color', priority: 50 }])).toBe('TextField');
+        expect(resolveFieldType({ type: 'string', format: 'color' } as any, [[{ fieldType: 'ColorField', type: 'string', priority: 100 }]])).toBe('ColorField');
+    });
+});
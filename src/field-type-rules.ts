@@ -0,0 +1,108 @@
+import { ExtendedFieldDescriptor, JsonSchema } from 'json-schema-services';
+
+import { FieldTypeRule } from './models/field-type-rule';
+
+import * as _ from 'lodash';
+
+/**
+ * The field type used when none of the rules match (turns into a JSON editor for unknown subschemas).
+ */
+export const defaultFieldType = 'LargeTextField';
+
+/**
+ * The priority of custom rules that do not set one, so they are evaluated before the default rules.
+ */
+export const defaultCustomFieldTypeRulePriority = 1000;
+
+/**
+ * The rules that are used to resolve the field type when no other rules match.
+ */
+export const defaultFieldTypeRules: ReadonlyArray<FieldTypeRule> = [
+    { fieldType: 'EnumDropdownField', priority: 600, enum: true },
+    { fieldType: 'InlineTabField', priority: 500, type: 'object', match: descriptor => descriptor.patternProperties != null },
+    { fieldType: 'InlineListField', priority: 400, type: 'array', items: 'object' },
+    { fieldType: 'SelectField', priority: 300, type: 'array', items: ['integer', 'string'] },
+    { fieldType: 'DateTimeField', priority: 200, type: 'string', format: ['date-time', 'iso8601'] },
+    { fieldType: 'TextField', priority: 100, type: 'string' },
+    { fieldType: 'NumericField', priority: 100, type: ['integer', 'number'] },
+    { fieldType: 'CheckboxField', priority: 100, type: 'boolean' },
+];
+
+/**
+ * Resolve the field type for the given descriptor.
+ *
+ * @param descriptor The descriptor of the field.
+ * @param rules (Optional) Additional rules, that are evaluated together with the default rules.
+ *
+ * @return The field type of the first (highest priority) matching rule, or the default field type.
+ */
+export function resolveFieldType(descriptor: ExtendedFieldDescriptor, rules: (FieldTypeRule | FieldTypeRule[])[] = []): string {
+    if (!!descriptor.field && !!descriptor.field.type) {
+        return descriptor.field.type;
+    }
+
+    // Custom rules go before default rules with the same priority.
+    var custom = _.flatten(rules || []).map(x => x.priority != null ? x : { ...x, priority: defaultCustomFieldTypeRulePriority }),
+        sorted = _.sortBy(custom.concat(defaultFieldTypeRules), x => -x.priority),
+        rule = sorted.find(x => matchesFieldTypeRule(x, descriptor));
+
+    return !!rule ? rule.fieldType : defaultFieldType;
+}
+
+/**
+ * Check whether the given rule matches the descriptor.
+ *
+ * @param rule The rule to check.
+ * @param descriptor The descriptor of the field.
+ */
+export function matchesFieldTypeRule(rule: FieldTypeRule, descriptor: ExtendedFieldDescriptor): boolean {
+    if (rule.type != null && !matchesOneOf(rule.type, descriptor.type)) {
+        return false;
+    }
+    if (rule.format != null && !matchesOneOf(rule.format, descriptor.format)) {
+        return false;
+    }
+    if (rule.items != null && !matchesOneOf(rule.items, getItemsType(descriptor))) {
+        return false;
+    }
+    if (rule.enum != null && rule.enum !== (descriptor.enum != null)) {
+        return false;
+    }
+    if (rule.link != null) {
+        var link = !!descriptor.field ? descriptor.field.link : void 0;
+        if (typeof rule.link === 'string' ? rule.link !== link : rule.link !== !!link) {
+            return false;
+        }
+    }
+    if (rule.contentMediaType != null && !matchesMediaType(rule.contentMediaType, (descriptor as any).contentMediaType)) {
+        return false;
+    }
+    return !rule.match || rule.match(descriptor) === true;
+}
+
+/**
+ * Get the type of the items of an array descriptor (for tuples, the type of the first item).
+ */
+function getItemsType(descriptor: ExtendedFieldDescriptor): any {
+    var items: JsonSchema = Array.isArray(descriptor.items) ? descriptor.items[0] : descriptor.items as JsonSchema;
+    return items != null ? items.type : void 0;
+}
+
+/**
+ * Check whether the value (or one of the values) is one of the expected values.
+ */
+function matchesOneOf(expected: string | string[], value: any): boolean {
+    var values = Array.isArray(value) ? value : [value];
+    return (Array.isArray(expected) ? expected : [expected]).some(x => values.indexOf(x) > -1);
+}
+
+/**
+ * Check whether the media type matches one of the expected (wildcard) media types.
+ */
+function matchesMediaType(expected: string | string[], value: any): boolean {
+    if (typeof value !== 'string') {
+        return false;
+    }
+    return (Array.isArray(expected) ? expected : [expected]).some(x =>
+        x === value || (x.endsWith('/*') && value.startsWith(x.substr(0, x.length - 1))));
+}
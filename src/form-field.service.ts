@@ -1,6 +1,16 @@
 import { Injectable, Inject, Injector, Type, InjectionToken, ANALYZE_FOR_ENTRY_COMPONENTS } from '@angular/core';
+import { ExtendedFieldDescriptor } from 'json-schema-services';
 import { FormField } from './models/form-field';
-import { formFieldRegistration, RegisterableFormField } from './models/registerable-form-field';
+import { FieldWrapperRegistration, FORM_FIELD_WRAPPERS } from './models/field-wrapper';
+import { FieldTypeRule, FORM_FIELD_TYPE_RULES } from './models/field-type-rule';
+import { FieldFallbackOptions, FieldFallbackCandidate, FieldFallbackResult, fieldFallbackOptionsToken } from './models/field-fallback';
+import { resolveFieldType } from './field-type-rules';
+import { RawJsonFieldComponent } from './raw-json-field.component';
+import { FormFieldViewModel, FormFieldSet } from './field-context-provider.service';
+import { formFieldRegistration, RegisterableFormField, LazyFormFieldRegistration, isLazyFormFieldRegistration } from './models/registerable-form-field';
+
+import debuglib from 'debug';
+const debug = debuglib('schema-ui:form-field-service');
 
 export const LOAD_FORM_FIELDS = new InjectionToken('LoadFormFields');
 
@@ -15,6 +25,31 @@ export class FormFieldService {
      */
     private components: CachedFieldComponent[] = [];
 
+    /**
+     * The components of lazy registrations that have been loaded.
+     */
+    private loadedComponents: Map<LazyFormFieldRegistration, Type<FormField<any>>> = new Map();
+
+    /**
+     * The lazy registrations that are being loaded.
+     */
+    private pendingComponents: Map<LazyFormFieldRegistration, Promise<Type<FormField<any>>>> = new Map();
+
+    /**
+     * Lists all field wrappers.
+     */
+    private wrappers: FieldWrapperRegistration[] = [];
+
+    /**
+     * The field types to try when the component for a field type cannot be found.
+     */
+    private fallbackOptions: FieldFallbackOptions;
+
+    /**
+     * The rules used to determine the type-based default field type in the fallback chain.
+     */
+    private fieldTypeRules: (FieldTypeRule | FieldTypeRule[])[];
+
     /**
      * Constructs the form field service.
      */
@@ -22,14 +57,18 @@ export class FormFieldService {
         @Inject(Injector) injector: Injector,
     ) {
         this.registerFieldsFromInjector(injector);
+        this.registerWrappersFromInjector(injector);
+        this.fallbackOptions = injector.get(fieldFallbackOptionsToken, {});
+        this.fieldTypeRules = injector.get(FORM_FIELD_TYPE_RULES, []);
     }
 
     /**
      * Register a field by it's alias.
      *
+     * @param component The component, or a registration that loads the component on demand.
      * @param alias The alias to register the component by.
      */
-    public registerField<T>(component: RegisterableFormField, alias: string | string[] = []): void {
+    public registerField<T>(component: RegisterableFormField | LazyFormFieldRegistration, alias: string | string[] = []): void {
         var aliases = Array.isArray(alias) ? alias : [alias];
         if (component.fieldName && aliases.indexOf(component.fieldName) < 0) {
             aliases.unshift(component.fieldName);
@@ -70,9 +109,66 @@ export class FormFieldService {
             if (Array.isArray(field)) {
                 this.registerField(field[1] as any, field[0]);
             }
+            else if (isLazyFormFieldRegistration(field)) {
+                this.registerField(field);
+            }
+        }
+    }
+
+    /**
+     * Register a wrapper that is rendered around field components.
+     *
+     * @param wrapper The wrapper to register (replaces the wrapper with the same name).
+     */
+    public registerWrapper(wrapper: FieldWrapperRegistration): void {
+        this.wrappers = this.wrappers.filter(x => x.name !== wrapper.name).concat([wrapper]);
+    }
+
+    /**
+     * Register all field wrappers setup in FORM_FIELD_WRAPPERS multi injector-tokens.
+     *
+     * @param injector Injector that contains the wrappers to add to the form-field-service.
+     */
+    public registerWrappersFromInjector(injector: Injector): void {
+        var wrappers: FieldWrapperRegistration[] = [].concat.apply([], injector.get(FORM_FIELD_WRAPPERS, []));
+        for (var wrapper of wrappers) {
+            this.registerWrapper(wrapper);
         }
     }
 
+    /**
+     * Get the wrappers with the given names, in the given order.
+     *
+     * @param names The names of the wrappers.
+     */
+    public getWrappersByNames(names: string[]): FieldWrapperRegistration[] {
+        return names.map(name => {
+            var wrapper = this.wrappers.find(x => x.name === name);
+            if (wrapper == null) {
+                debug(`[warn] no field wrapper is registered by the name "${name}".`);
+            }
+            return wrapper;
+        }).filter(x => x != null);
+    }
+
+    /**
+     * Get the wrappers to render around the given field, from the outermost to the innermost wrapper.
+     *
+     * @param field The view model of the field.
+     * @param fieldset (Optional) The fieldset the field is in.
+     */
+    public getFieldWrappers(field: FormFieldViewModel<FormField<any>>, fieldset?: FormFieldSet): FieldWrapperRegistration[] {
+        var type = !!field.ctx.meta && !!field.ctx.meta.field ? field.ctx.meta.field.type : null;
+        return this.wrappers
+            .filter(x =>
+                (!Array.isArray(x.fieldTypes) || x.fieldTypes.indexOf(type) > -1) &&
+                (!Array.isArray(x.fieldsets) || (!!fieldset && x.fieldsets.indexOf(fieldset.id) > -1)) &&
+                (typeof x.match !== 'function' || x.match(field, fieldset)))
+            .map((x, i) => ({ x, i }))
+            .sort((a, b) => ((a.x.order || 0) - (b.x.order || 0)) || a.i - b.i)
+            .map(({ x }) => x);
+    }
+
     /**
      * Check wheather the field with the given name exists.
      */
@@ -83,22 +179,131 @@ export class FormFieldService {
     /**
      * Get the field component for the given name.
      *
+     * Fields that are loaded on demand are only returned once they have been loaded, until then null is returned.
+     * Use loadFieldComponentByName to get (and load) the component of any field.
+     *
      * @param name The name of the field to fetch the class for.
      * @param injector Optionally, an injector that should be looked in first before checking other injectors.
      */
     public getFieldComponentByName<T extends FormField<any>>(name: string, injector?: Injector): Type<T> | null {
-        var result: Type<T> | null;
+        var registration = this.getFieldRegistrationByName(name, injector);
+        if (registration == null) {
+            return null;
+        }
+        if (isLazyFormFieldRegistration(registration)) {
+            return (this.loadedComponents.get(registration) || null) as Type<T>;
+        }
+        return (Array.isArray(registration) ? registration[1] : registration) as any;
+    }
 
-        if (injector) {
-            // Search the provided injector.
-            result = this.tryGetFieldComponentByName(name, injector);
+    /**
+     * Get the field component for the given name, and load it first if it is loaded on demand.
+     *
+     * @param name The name of the field to fetch the class for.
+     * @param injector Optionally, an injector that should be looked in first before checking other injectors.
+     *
+     * @return A promise for the component, or null if there is no field with the given name.
+     */
+    public loadFieldComponentByName<T extends FormField<any>>(name: string, injector?: Injector): Promise<Type<T> | null> {
+        var registration = this.getFieldRegistrationByName(name, injector);
+        if (!isLazyFormFieldRegistration(registration)) {
+            return Promise.resolve(this.getFieldComponentByName<T>(name, injector));
         }
+        return this.loadLazyFieldComponent(registration) as Promise<Type<T>>;
+    }
 
-        if (result == null && this.hasFieldName(name)) {
-            return this.components.find(x => x.aliases.indexOf(name) >= 0).component as any;
+    /**
+     * Load the component of a lazy registration.
+     */
+    private loadLazyFieldComponent(registration: LazyFormFieldRegistration): Promise<Type<FormField<any>>> {
+        if (this.loadedComponents.has(registration)) {
+            return Promise.resolve(this.loadedComponents.get(registration));
         }
 
-        return result;
+        // Make sure every chunk is only requested once, even if multiple fields use it at the same time.
+        var pending = this.pendingComponents.get(registration);
+        if (pending == null) {
+            pending = Promise.resolve()
+                .then(() => registration.loadComponent())
+                .then(component => {
+                    this.pendingComponents.delete(registration);
+                    if (component == null) {
+                        throw new Error(`The loader for the field "${registration.fieldName}" did not return a component.`);
+                    }
+                    this.loadedComponents.set(registration, component);
+                    return component;
+                }, err => {
+                    this.pendingComponents.delete(registration);
+                    throw err;
+                });
+            this.pendingComponents.set(registration, pending);
+        }
+        return pending;
+    }
+
+    /**
+     * Get the field types to try, in order, when the component for the field type of the given field cannot be found.
+     *
+     * The chain consists of the configured aliases (and those in the "aliases" hint of the field), the type-based default and the fallback field.
+     *
+     * @param descriptor The descriptor of the field.
+     */
+    public getFallbackFieldTypes(descriptor: ExtendedFieldDescriptor): FieldFallbackCandidate[] {
+        var options = this.fallbackOptions || {},
+            hints: any = descriptor.field || {},
+            type: string = hints.type,
+            candidates: FieldFallbackCandidate[] = [],
+            add = (fieldType: string, source: FieldFallbackCandidate['source']) => {
+                if (!!fieldType && fieldType !== type && !candidates.some(x => x.fieldType === fieldType)) {
+                    candidates.push({ fieldType, source });
+                }
+            };
+
+        for (var alias of ((options.aliases || {})[type] || []).concat(Array.isArray(hints.aliases) ? hints.aliases : [])) {
+            add(alias, 'alias');
+        }
+        if (options.useTypeDefault !== false) {
+            add(resolveFieldType({ ...descriptor, field: { ...hints, type: null } }, this.fieldTypeRules), 'type-default');
+        }
+        if (options.fallbackField !== null) {
+            add(options.fallbackField || RawJsonFieldComponent.fieldName, 'fallback');
+        }
+        return candidates;
+    }
+
+    /**
+     * Load the first component in the fallback chain of the given field.
+     *
+     * @param descriptor The descriptor of the field for which no component could be found.
+     * @param injector Optionally, an injector that should be looked in first before checking other injectors.
+     *
+     * @return A promise for the fallback component, or null if none of the field types in the chain could be found.
+     */
+    public loadFallbackFieldComponent<T extends FormField<any>>(descriptor: ExtendedFieldDescriptor, injector?: Injector): Promise<FieldFallbackResult<T> | null> {
+        var candidates = this.getFallbackFieldTypes(descriptor),
+            tried: string[] = [];
+
+        var next = (index: number): Promise<FieldFallbackResult<T> | null> => {
+            if (index >= candidates.length) {
+                return Promise.resolve(null);
+            }
+
+            var candidate = candidates[index];
+            tried.push(candidate.fieldType);
+            return this.loadFieldComponentByName<T>(candidate.fieldType, injector)
+                .catch(err => {
+                    debug(`[warn] unable to load the fallback field "${candidate.fieldType}".`, err);
+                    return null;
+                })
+                .then((component: Type<FormField<any>>) => {
+                    // The raw JSON field is always available, even when it is not registered.
+                    if (component == null && candidate.source === 'fallback' && candidate.fieldType === RawJsonFieldComponent.fieldName) {
+                        component = RawJsonFieldComponent;
+                    }
+                    return component != null ? { ...candidate, component: component as Type<T>, tried } : next(index + 1);
+                });
+        };
+        return next(0);
     }
 
     /**
@@ -119,12 +324,33 @@ export class FormFieldService {
     }
 
     /**
-     * Attempt to fetch the field list from the given injector.
+     * Get the registration for the field with the given name.
+     *
+     * @param name Name of the field to fetch the registration for.
+     * @param injector (Optionally) The injector that should be searched first.
+     */
+    private getFieldRegistrationByName(name: string, injector?: Injector): formFieldRegistration | null {
+        var result: formFieldRegistration | null;
+
+        if (injector) {
+            // Search the provided injector.
+            result = this.tryGetFieldRegistrationByName(name, injector);
+        }
+
+        if (result == null && this.hasFieldName(name)) {
+            return this.components.find(x => x.aliases.indexOf(name) >= 0).component;
+        }
+
+        return result;
+    }
+
+    /**
+     * Attempt to fetch the field registration from the given injector.
      *
-     * @param name Name of the field to fetch the class for.
+     * @param name Name of the field to fetch the registration for.
      * @param injector (Optionally) The injector that should be searched for the field.
      */
-    private tryGetFieldComponentByName<T extends FormField<any>>(name: string, injector: Injector): Type<T> | null {
+    private tryGetFieldRegistrationByName(name: string, injector: Injector): formFieldRegistration | null {
         try {
             var fields: formFieldRegistration[] = [].concat.apply([], injector.get<formFieldRegistration[]>(LOAD_FORM_FIELDS));
         }
@@ -148,18 +374,17 @@ Add something like "public static fieldName: string = '${removeRight((entry as a
             }
         });
 
-        if (result != null) {
-            return Array.isArray(result) ? result[1] as any : result;
-        }
-        return null;
+        return result || null;
     }
 
     /**
      * Provide form fields to extend the form.
+     *
+     * Fields that are loaded on demand are left out of the entry components, as they are not part of the bundle.
      */
     public static provideFormFields(fields: formFieldRegistration[]): any[] {
         return [
-            { provide: ANALYZE_FOR_ENTRY_COMPONENTS, useValue: fields, multi: true },
+            { provide: ANALYZE_FOR_ENTRY_COMPONENTS, useValue: fields.filter(x => !isLazyFormFieldRegistration(x)), multi: true },
             { provide: LOAD_FORM_FIELDS, useValue: fields, multi: true }
         ];
     }
@@ -174,5 +399,5 @@ function removeRight(str: string, remove: string): string {
 
 interface CachedFieldComponent {
     aliases: string[];
-    component: RegisterableFormField;
+    component: RegisterableFormField | LazyFormFieldRegistration;
 }
@@ -0,0 +1,105 @@
+import { Subject } from 'rxjs';
+
+import { FormWizard } from './form-wizard';
+
+/**
+ * Create a fieldset with fields for the given pointers.
+ */
+function fieldset(id: string, pointer: string, fields: string[]): any {
+    return { id, pointer, label: id, validation: null, fields: fields.map(x => ({ ctx: { pointer: x, meta: {} }, validation: null })) };
+}
+
+/**
+ * Create a minimal form for the wizard, in which the fields with the given pointers are invalid.
+ */
+function form(sets: any[], invalid: string[] = []): any {
+    var validate = (field: any) => Promise.resolve(field.validation = { valid: invalid.indexOf(field.ctx.pointer) < 0 });
+    return {
+        sets,
+        validation$: new Subject(),
+        validateField: jasmine.createSpy('validateField').and.callFake(validate),
+        validateFieldset: jasmine.createSpy('validateFieldset').and.callFake((set: any) =>
+            Promise.all(set.fields.map(validate)).then(results => results.concat([set.validation = { valid: results.every((x: any) => x.valid) }]))),
+    };
+}
+
+describe('FormWizard', () => {
+    var steps = [
+        { id: 'person', fieldsets: ['root'] },
+        { id: 'address', fieldsets: ['address'] },
+        { id: 'extra', fieldsets: ['extra'] },
+    ];
+
+    it('advances and goes back through the steps', done => {
+        var provider = form([fieldset('root', '/', ['/name']), fieldset('address', '/address', ['/address/city']), fieldset('extra', '/extra', ['/extra/note'])]),
+            wizard = new FormWizard(provider, steps);
+
+        expect(wizard.canGoBack()).toBe(false);
+        expect(wizard.previous()).toBe(false);
+
+        wizard.next().then(advanced => {
+            expect(advanced).toBe(true);
+            expect(wizard.getCurrentStep().id).toBe('address');
+            expect(wizard.steps$.value.currentStep).toBe(1);
+
+            expect(wizard.previous()).toBe(true);
+            expect(wizard.getCurrentStep().id).toBe('person');
+            done();
+        });
+    });
+
+    it('does not advance when the current step is invalid', done => {
+        var provider = form([fieldset('root', '/', ['/name']), fieldset('address', '/address', ['/address/city'])], ['/name']),
+            wizard = new FormWizard(provider, steps);
+
+        wizard.next().then(advanced => {
+            expect(advanced).toBe(false);
+            expect(wizard.currentStep).toBe(0);
+            expect(wizard.canAdvance()).toBe(false);
+            done();
+        });
+    });
+
+    it('validates the root fieldset per field, so fields of later steps do not block it', done => {
+        var provider = form([fieldset('root', '/', ['/name']), fieldset('address', '/address', ['/address/city'])], ['/address/city']),
+            wizard = new FormWizard(provider, steps);
+
+        wizard.next().then(advanced => {
+            expect(advanced).toBe(true);
+            expect(provider.validateFieldset).not.toHaveBeenCalled();
+            expect(provider.validateField).toHaveBeenCalledTimes(1);
+            done();
+        });
+    });
+
+    it('can advance based on the last validation results, ignoring the root fieldset result', () => {
+        var root = fieldset('root', '/', ['/name']),
+            wizard = new FormWizard(form([root, fieldset('address', '/address', ['/address/city'])]), steps);
+
+        root.validation = { valid: false };
+        expect(wizard.canAdvance()).toBe(true);
+
+        root.fields[0].validation = { valid: false };
+        expect(wizard.canAdvance()).toBe(false);
+    });
+
+    it('keeps the current step when other steps become unavailable', done => {
+        var provider = form([fieldset('root', '/', ['/name']), fieldset('address', '/address', ['/address/city']), fieldset('extra', '/extra', ['/extra/note'])]),
+            wizard = new FormWizard(provider, steps);
+
+        wizard.next().then(() => wizard.next()).then(() => {
+            expect(wizard.getCurrentStep().id).toBe('extra');
+
+            // Hide the address step.
+            provider.sets.splice(1, 1);
+            expect(wizard.getCurrentStep().id).toBe('extra');
+            expect(wizard.currentStep).toBe(1);
+            expect(wizard.isLastStep()).toBe(true);
+
+            // Hide the current step, the wizard continues with the last available step.
+            provider.sets.splice(1, 1);
+            expect(wizard.getCurrentStep().id).toBe('person');
+            done();
+        });
+    });
+});
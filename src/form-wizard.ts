@@ -0,0 +1,267 @@
+import { BehaviorSubject, Subscription } from 'rxjs';
+
+import { FieldContextProvider, FormFieldSet } from './field-context-provider.service';
+
+import * as _ from 'lodash';
+
+import debuglib from 'debug';
+const debug = debuglib('schema-ui:form-wizard');
+
+/**
+ * A step in a form wizard, grouping one or more fieldsets.
+ */
+export interface FormWizardStep {
+    /**
+     * Identifier of the step.
+     */
+    id: string;
+
+    /**
+     * The label as used in the UI.
+     */
+    label?: string;
+
+    /**
+     * The ids of the fieldsets shown in this step.
+     */
+    fieldsets: string[];
+}
+
+/**
+ * State of a form wizard, as emitted by the steps$ observable.
+ */
+export interface FormWizardState {
+    /**
+     * The steps that are currently available (steps without visible fieldsets are left out).
+     */
+    steps: FormWizardStep[];
+
+    /**
+     * Index of the current step.
+     */
+    currentStep: number;
+
+    /**
+     * Whether the user can advance to the next step, based on the last known validation results.
+     */
+    canAdvance: boolean;
+
+    /**
+     * Whether the user can go back to the previous step.
+     */
+    canGoBack: boolean;
+}
+
+/**
+ * Step-by-step mode on top of the fieldsets of a field context provider.
+ *
+ * Steps are configured in code, or by setting the "step" hint on the field property of the fields in the schema;
+ * fieldsets are grouped in the step of the first field that has the hint, fieldsets without it get a step of their own.
+ */
+export class FormWizard {
+    /**
+     * All configured steps.
+     */
+    public readonly steps: ReadonlyArray<FormWizardStep>;
+
+    /**
+     * An observable that emits the state of the wizard when the current step or it's validation state changes.
+     */
+    public readonly steps$: BehaviorSubject<FormWizardState>;
+
+    /**
+     * Index of the current step in the available steps.
+     */
+    public get currentStep(): number {
+        return Math.max(0, this.getAvailableSteps().indexOf(this.getCurrentStep()));
+    }
+
+    /**
+     * The current step, kept by reference so it stays the same when other steps become (un)available.
+     */
+    private current: FormWizardStep;
+
+    /**
+     * Subscription that listens to validation runs, in order to emit the new state.
+     */
+    private validationSubscription: Subscription;
+
+    /**
+     * @param provider The form to create the wizard for.
+     * @param steps (Optional) The steps, when not given they are determined using the fieldsets and their schema hints.
+     */
+    public constructor(public readonly provider: FieldContextProvider, steps?: FormWizardStep[]) {
+        this.steps = Array.isArray(steps) && steps.length > 0 ? steps : FormWizard.createStepsFromSchema(provider);
+        this.current = this.steps[0];
+        this.steps$ = new BehaviorSubject(this.getState());
+        this.validationSubscription = provider.validation$.subscribe(() => this.emit());
+    }
+
+    /**
+     * Get the steps that have visible fieldsets.
+     */
+    public getAvailableSteps(): FormWizardStep[] {
+        return this.steps.filter(step => this.getFieldsets(step).length > 0);
+    }
+
+    /**
+     * Get the current step.
+     */
+    public getCurrentStep(): FormWizardStep | null {
+        var available = this.getAvailableSteps();
+        if (available.indexOf(this.current) > -1) {
+            return this.current;
+        }
+
+        // The step is no longer available (all of it's fieldsets are hidden), continue with the next available step.
+        var position = this.steps.indexOf(this.current);
+        return available.find(x => this.steps.indexOf(x) > position) || available[available.length - 1] || null;
+    }
+
+    /**
+     * Get the visible fieldsets of the given step.
+     *
+     * @param step The step to get the fieldsets for, defaults to the current step.
+     */
+    public getFieldsets(step: FormWizardStep = this.getCurrentStep()): FormFieldSet[] {
+        if (step == null) {
+            return [];
+        }
+        return this.provider.sets.filter(x => step.fieldsets.indexOf(x.id) > -1);
+    }
+
+    /**
+     * Whether the current step is the last one.
+     */
+    public isLastStep(): boolean {
+        return this.currentStep >= this.getAvailableSteps().length - 1;
+    }
+
+    /**
+     * Whether the user can advance to the next step, based on the last known validation results of the current step.
+     */
+    public canAdvance(): boolean {
+        return !this.isLastStep() && this.getFieldsets().every(
+            set => (set.validation == null || set.validation.valid || FormWizard.isRootFieldset(set)) && set.fields.every(
+                field => field.validation == null || field.validation.valid));
+    }
+
+    /**
+     * Whether the user can go back to the previous step.
+     */
+    public canGoBack(): boolean {
+        return this.currentStep > 0;
+    }
+
+    /**
+     * Validate the fieldsets in the current step, and advance to the next step if they are valid.
+     *
+     * @return Whether the wizard advanced to the next step.
+     */
+    public next(): Promise<boolean> {
+        if (this.isLastStep()) {
+            return Promise.resolve(false);
+        }
+
+        return this.validateCurrentStep().then(valid => {
+            var available = this.getAvailableSteps(),
+                index = available.indexOf(this.getCurrentStep());
+            if (!valid || index + 1 >= available.length) {
+                return false;
+            }
+
+            this.current = available[index + 1];
+            this.emit();
+            return true;
+        });
+    }
+
+    /**
+     * Go back to the previous step (without validation).
+     *
+     * @return Whether the wizard went back.
+     */
+    public previous(): boolean {
+        if (!this.canGoBack()) {
+            return false;
+        }
+
+        this.current = this.getAvailableSteps()[this.currentStep - 1];
+        this.emit();
+        return true;
+    }
+
+    /**
+     * Validate the fieldsets in the current step.
+     *
+     * The root fieldset is validated per field, as validating it as a whole validates the fields of the other steps as well.
+     *
+     * @return Whether all fieldsets in the current step are valid.
+     */
+    public validateCurrentStep(): Promise<boolean> {
+        return Promise.all(this.getFieldsets().map(set => FormWizard.isRootFieldset(set)
+                ? Promise.all(set.fields.map(field => this.provider.validateField(field)))
+                : this.provider.validateFieldset(set, true)))
+            .then((results: { valid: boolean }[][]) => _.flatten(results).every(x => x.valid))
+            .catch(err => {
+                debug(`[warn] validation of step "${(this.getCurrentStep() || {} as FormWizardStep).id}" failed: `, err);
+                return false;
+            });
+    }
+
+    /**
+     * Stop listening to the form.
+     */
+    public destroy(): void {
+        if (!this.validationSubscription.closed) {
+            this.validationSubscription.unsubscribe();
+        }
+        this.steps$.complete();
+    }
+
+    /**
+     * Emit the current state.
+     */
+    private emit(): void {
+        this.steps$.next(this.getState());
+    }
+
+    /**
+     * Get the current state.
+     */
+    private getState(): FormWizardState {
+        return {
+            steps: this.getAvailableSteps(),
+            currentStep: this.currentStep,
+            canAdvance: this.canAdvance(),
+            canGoBack: this.canGoBack(),
+        };
+    }
+
+    /**
+     * Whether the given fieldset is the root fieldset, which is validated against the schema of the whole form.
+     */
+    private static isRootFieldset(set: FormFieldSet): boolean {
+        return set.pointer == null || set.pointer.length <= 1;
+    }
+
+    /**
+     * Determine the steps using the fieldsets of the form, and the "step" hints of their fields.
+     *
+     * @param provider The form to create the steps for.
+     */
+    public static createStepsFromSchema(provider: FieldContextProvider): FormWizardStep[] {
+        var steps: FormWizardStep[] = [];
+        provider.extractSet(set => {
+            var hinted = set.fields.find(x => !!x.ctx.meta.field && typeof (x.ctx.meta.field as any).step === 'string'),
+                id: string = !!hinted ? (hinted.ctx.meta.field as any).step : set.id,
+                step = steps.find(x => x.id === id);
+
+            if (step == null) {
+                steps.push(step = { id, label: !!hinted ? provider.translateStepLabel(id) : set.label, fieldsets: [] });
+            }
+            step.fieldsets.push(set.id);
+        });
+        return steps;
+    }
+}
@@ -4,8 +4,24 @@ export * from './models/form-field';
 export * from './models/form-field-context';
 export * from './models/form-field-validation';
 export * from './models/registerable-form-field';
+export * from './models/field-template-slots';
+export * from './models/field-wrapper';
+export * from './models/field-fallback';
+export * from './models/form-draft';
+export * from './models/field-validator';
+export * from './models/field-type-rule';
+export * from './models/translation-provider';
+export * from './models/field-access-policy';
 
 export * from './pointer-tools';
+export * from './schema-conditions';
+export * from './schema-variants';
+export * from './computed-fields';
+export * from './field-type-rules';
+export * from './field-descriptor-merging';
+export * from './message-format';
+export * from './translation-catalogs';
+export * from './array-diff';
 
 export * from './mapper/simplified-resource';
 export * from './mapper/simplified-resource-mapper';
@@ -13,9 +29,17 @@ export * from './mapper/linkable-simplified-resource-mapper';
 
 export * from './form-field.service';
 export * from './field-context-provider.service';
+export * from './field-change-history';
+export * from './form-wizard';
 export * from './linked-data-cache.service';
 export * from './cached-data-provider.service';
 export * from './linked-data-provider.service';
 export * from './loosely-linked-data-provider.service';
+export * from './draft-store.service';
+export * from './translation-provider.service';
+export * from './field-access-policy.service';
 export * from './field-component-swap.directive';
+export * from './raw-json-field.component';
+export * from './reactive-forms/field-context-form-group';
+export * from './reactive-forms/control-value-accessor-field';
 export * from './schema-fields.module';
@@ -0,0 +1,70 @@
+import { formatMessage, interpolateMessage } from './message-format';
+import { CatalogTranslationProvider } from './translation-provider.service';
+import { isTranslationMessageBundle } from './models/translation-provider';
+
+describe('message-format', () => {
+    describe('formatMessage', () => {
+        it('replaces simple arguments', () => {
+            expect(formatMessage('Hello {name}!', { name: 'Jane' })).toBe('Hello Jane!');
+            expect(formatMessage('Hello {name}!', {})).toBe('Hello {name}!');
+        });
+
+        it('selects the plural branch and formats the number sign', () => {
+            var message = '{count, plural, =0 {No items} one {# item} other {# items}}';
+
+            expect(formatMessage(message, { count: 0 }, 'en')).toBe('No items');
+            expect(formatMessage(message, { count: 1 }, 'en')).toBe('1 item');
+            expect(formatMessage(message, { count: 3 }, 'en')).toBe('3 items');
+        });
+
+        it('selects the select and selectordinal branches', () => {
+            expect(formatMessage('{kind, select, company {Company} other {Person}}', { kind: 'company' })).toBe('Company');
+            expect(formatMessage('{kind, select, company {Company} other {Person}}', { kind: 'x' })).toBe('Person');
+            expect(formatMessage('{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}', { n: 2 }, 'en')).toBe('2nd');
+        });
+
+        it('keeps quoted text literal', () => {
+            expect(formatMessage('Use \'{name}\' as placeholder', { name: 'x' })).toBe('Use {name} as placeholder');
+        });
+
+        it('returns malformed messages as they are', () => {
+            expect(formatMessage('{count, plural, one {#', { count: 1 })).toBe('{count, plural, one {#');
+        });
+    });
+
+    describe('interpolateMessage', () => {
+        it('replaces placeholders of known parameters only', () => {
+            expect(interpolateMessage('{field} should be at most {max} long', { max: 10 })).toBe('{field} should be at most 10 long');
+        });
+
+        it('leaves braces in the message and its parameters intact', () => {
+            expect(interpolateMessage('Should match {pattern}', { pattern: '^[a-z]{2,3}$' })).toBe('Should match ^[a-z]{2,3}$');
+            expect(interpolateMessage('Should match ^[a-z]{2,3}$', { pattern: 'x' })).toBe('Should match ^[a-z]{2,3}$');
+        });
+    });
+
+    describe('CatalogTranslationProvider', () => {
+        it('does not ICU-format default values', () => {
+            var provider = new CatalogTranslationProvider('en');
+
+            expect(provider.translate(['pattern'], 'Should match ^[a-z]{2,3}$')).toBe('Should match ^[a-z]{2,3}$');
+            expect(provider.translate(['pattern'], 'Should match {pattern}', { pattern: '^[a-z]{2,3}$' })).toBe('Should match ^[a-z]{2,3}$');
+        });
+
+        it('can be created from a message bundle', () => {
+            var bundle = { getMessages: () => [{ id: 'name', description: 'Name' }, { id: 'empty' }] },
+                provider = CatalogTranslationProvider.fromMessages(bundle.getMessages());
+
+            expect(isTranslationMessageBundle(bundle)).toBe(true);
+            expect(isTranslationMessageBundle(provider)).toBe(false);
+            expect(provider.translate(['empty', 'name'])).toBe('Name');
+        });
+
+        it('formats catalog messages', () => {
+            var provider = new CatalogTranslationProvider('en');
+            provider.add({ items: '{count, plural, one {# item} other {# items}}' });
+
+            expect(provider.translate(['items'], 'Items', { count: 2 })).toBe('2 items');
+        });
+    });
+});
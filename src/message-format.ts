@@ -0,0 +1,268 @@
+import { TranslationParams } from './models/translation-provider';
+
+/**
+ * Interpolate the given parameters into a message, using (a subset of) the ICU message format.
+ *
+ * Supports simple arguments like "{name}", numbers like "{price, number}" or "{ratio, number, percent}",
+ * "{count, plural, ...}", "{position, selectordinal, ...}" (including offsets, "=n" branches and "#")
+ * and "{gender, select, ...}". Use '' for a single quote, and quotes to escape braces, e.g. "'{'".
+ *
+ * Arguments without a matching parameter are left in the message as-is.
+ *
+ * @param message The message to format.
+ * @param params (Optional) The parameters to interpolate.
+ * @param locale (Optional) The locale to use for plural rules and number formatting.
+ */
+export function formatMessage(message: string, params?: TranslationParams, locale?: string): string {
+    if (typeof message !== 'string' || (message.indexOf('{') < 0 && message.indexOf('\'') < 0)) {
+        return message;
+    }
+
+    try {
+        return formatParts(new MessageParser(message).parse(), params || {}, locale);
+    }
+    catch (e) {
+        // Malformed messages are shown as-is, instead of breaking the form.
+        return message;
+    }
+}
+
+/**
+ * Interpolate the given parameters into a message that is not in the ICU message format, like an untranslated default message.
+ *
+ * Only "{name}" placeholders with a matching parameter are replaced, any other braces (e.g. in a regular expression) are kept as-is.
+ *
+ * @param message The message to interpolate the parameters into.
+ * @param params (Optional) The parameters to interpolate.
+ */
+export function interpolateMessage(message: string, params?: TranslationParams): string {
+    if (typeof message !== 'string' || params == null) {
+        return message;
+    }
+
+    return message.replace(/\{\s*([\w.$-]+)\s*\}/g, (placeholder: string, name: string) =>
+        Object.prototype.hasOwnProperty.call(params, name) && params[name] != null ? String(params[name]) : placeholder);
+}
+
+//#region Parser
+interface MessageArgument {
+    name: string;
+    type?: string;
+    style?: string;
+    offset?: number;
+    options?: { [key: string]: MessagePart[] };
+}
+
+type MessagePart = string | MessageArgument;
+
+/**
+ * Parser for ICU formatted messages.
+ */
+class MessageParser {
+    /**
+     * Position in the message.
+     */
+    private index: number = 0;
+
+    public constructor(private message: string) { }
+
+    /**
+     * Parse the message into literal text and arguments.
+     */
+    public parse(): MessagePart[] {
+        return this.parseParts(false, false);
+    }
+
+    private parseParts(nested: boolean, plural: boolean): MessagePart[] {
+        var parts: MessagePart[] = [], text = '';
+        while (this.index < this.message.length) {
+            var char = this.message[this.index];
+            if (char === '{') {
+                this.index++;
+                if (text.length > 0) {
+                    parts.push(text);
+                    text = '';
+                }
+                parts.push(this.parseArgument(plural));
+            }
+            else if (char === '}') {
+                if (!nested) {
+                    throw new Error(`Unexpected "}" at position ${this.index}.`);
+                }
+                break;
+            }
+            else if (char === '#' && plural) {
+                this.index++;
+                if (text.length > 0) {
+                    parts.push(text);
+                    text = '';
+                }
+                parts.push({ name: '#' });
+            }
+            else if (char === '\'') {
+                text += this.parseQuoted();
+            }
+            else {
+                text += char;
+                this.index++;
+            }
+        }
+
+        if (text.length > 0) {
+            parts.push(text);
+        }
+        return parts;
+    }
+
+    private parseQuoted(): string {
+        var next = this.message[this.index + 1];
+        if (next === '\'') {
+            this.index += 2;
+            return '\'';
+        }
+        if (next !== '{' && next !== '}' && next !== '#') {
+            this.index++;
+            return '\'';
+        }
+
+        var end = this.message.indexOf('\'', this.index + 1);
+        if (end < 0) {
+            end = this.message.length;
+        }
+        var literal = this.message.substring(this.index + 1, end);
+        this.index = end + 1;
+        return literal;
+    }
+
+    private parseArgument(plural: boolean): MessageArgument {
+        var name = this.readUntil(',}').trim();
+        if (this.message[this.index++] === '}') {
+            return { name };
+        }
+
+        var type = this.readUntil(',}').trim();
+        if (this.message[this.index++] === '}') {
+            return { name, type };
+        }
+
+        if (type !== 'plural' && type !== 'selectordinal' && type !== 'select') {
+            var style = this.readUntil('}').trim();
+            this.index++;
+            return { name, type, style };
+        }
+
+        var options: { [key: string]: MessagePart[] } = {},
+            offset = 0;
+        while (true) {
+            this.skipWhitespace();
+            if (this.message[this.index] === '}') {
+                this.index++;
+                break;
+            }
+
+            var key = this.readUntil('{} \t\r\n');
+            if (key.indexOf('offset:') === 0) {
+                offset = parseFloat(key.substr(7)) || 0;
+                continue;
+            }
+
+            this.skipWhitespace();
+            if (this.message[this.index++] !== '{') {
+                throw new Error(`Expected "{" at position ${this.index - 1}.`);
+            }
+            options[key] = this.parseParts(true, plural || type !== 'select');
+            if (this.message[this.index++] !== '}') {
+                throw new Error(`Expected "}" at position ${this.index - 1}.`);
+            }
+        }
+
+        return { name, type, offset, options };
+    }
+
+    private readUntil(chars: string): string {
+        var start = this.index;
+        while (this.index < this.message.length && chars.indexOf(this.message[this.index]) < 0) {
+            this.index++;
+        }
+        if (this.index >= this.message.length) {
+            throw new Error(`Unterminated argument at position ${start}.`);
+        }
+        return this.message.substring(start, this.index);
+    }
+
+    private skipWhitespace(): void {
+        while (this.index < this.message.length && /\s/.test(this.message[this.index])) {
+            this.index++;
+        }
+    }
+}
+//#endregion
+
+//#region Formatting
+/**
+ * Format the parsed message parts.
+ */
+function formatParts(parts: MessagePart[], params: TranslationParams, locale?: string, pluralValue?: number): string {
+    return parts.map(part => {
+        if (typeof part === 'string') {
+            return part;
+        }
+        if (part.name === '#') {
+            return formatNumber(pluralValue, locale);
+        }
+
+        var value = params[part.name];
+        if (value === void 0) {
+            return '{' + part.name + '}';
+        }
+
+        switch (part.type) {
+            case 'plural':
+            case 'selectordinal':
+                var n = Number(value) - part.offset,
+                    branch = part.options['=' + value] || part.options[getPluralCategory(n, locale, part.type === 'selectordinal')] || part.options.other;
+                return !!branch ? formatParts(branch, params, locale, n) : '';
+            case 'select':
+                var selected = part.options[String(value)] || part.options.other;
+                return !!selected ? formatParts(selected, params, locale, pluralValue) : '';
+            case 'number':
+                return formatNumber(value, locale, part.style);
+            default:
+                return value == null ? '' : String(value);
+        }
+    }).join('');
+}
+
+/**
+ * Get the plural category (zero, one, two, few, many or other) of the number in the given locale.
+ */
+function getPluralCategory(n: number, locale?: string, ordinal: boolean = false): string {
+    try {
+        if (typeof Intl !== 'undefined' && (Intl as any).PluralRules != null) {
+            return new (Intl as any).PluralRules(locale, { type: ordinal ? 'ordinal' : 'cardinal' }).select(n);
+        }
+    }
+    catch (e) { }
+    return !ordinal && n === 1 ? 'one' : 'other';
+}
+
+/**
+ * Format a number for the given locale.
+ */
+function formatNumber(value: any, locale?: string, style?: string): string {
+    var n = Number(value);
+    if (value == null || isNaN(n)) {
+        return value == null ? '' : String(value);
+    }
+
+    try {
+        if (typeof Intl !== 'undefined') {
+            return new Intl.NumberFormat(locale, style === 'percent'
+                ? { style: 'percent' }
+                : style === 'integer' ? { maximumFractionDigits: 0 } : void 0).format(n);
+        }
+    }
+    catch (e) { }
+    return String(n);
+}
+//#endregion
@@ -0,0 +1,37 @@
+import { InjectionToken } from '@angular/core';
+import { ExtendedFieldDescriptor } from 'json-schema-services';
+import { Observable } from 'rxjs';
+
+import { FormModes } from './form-field-context';
+
+/**
+ * The access a user has to a field.
+ *
+ * - hidden: The field is not shown, and it's value is left out of the form data.
+ * - readonly: The field is shown, but cannot be changed.
+ * - editable: The field is shown, and can be changed (unless the form or field is readonly for another reason).
+ */
+export type FieldAccessLevel = 'hidden' | 'readonly' | 'editable';
+
+/**
+ * Policy that decides the access the current user has to the fields of a form.
+ */
+export interface FieldAccessPolicy {
+    /**
+     * An observable that emits when the outcome of the policy changes (e.g. because the permissions of the user changed).
+     */
+    readonly changed$?: Observable<any>;
+
+    /**
+     * Get the access the current user has to the given field.
+     *
+     * @param field The descriptor of the field (including it's pointer and schema annotations).
+     * @param mode The mode of the form the field is in.
+     */
+    getAccess(field: ExtendedFieldDescriptor, mode: FormModes): FieldAccessLevel;
+}
+
+/**
+ * Token to provide the field access policy with.
+ */
+export const fieldAccessPolicyToken = new InjectionToken<FieldAccessPolicy>('FieldAccessPolicy');
@@ -0,0 +1,102 @@
+import { InjectionToken, Type } from '@angular/core';
+
+import { FormField } from './form-field';
+
+/**
+ * How a fallback field type was found.
+ *
+ * - alias: an alternative field type configured for the requested field type (or in the field's "aliases" hint).
+ * - type-default: the field type the field type rules resolve for the schema of the field.
+ * - fallback: the generic field that edits the raw JSON value.
+ */
+export type FieldFallbackSource = 'alias' | 'type-default' | 'fallback';
+
+/**
+ * Configuration of the field types that are tried when no component is registered for the field type of a field.
+ */
+export interface FieldFallbackOptions {
+    /**
+     * Alternative field types to try, by requested field type, e.g. { RichTextField: ['LargeTextField'] }.
+     */
+    aliases?: { [fieldType: string]: string[] };
+
+    /**
+     * Whether to try the field type that the field type rules resolve for the schema of the field (default: true).
+     */
+    useTypeDefault?: boolean;
+
+    /**
+     * The field type to use when nothing else is found (default: "RawJsonField"), or null to show the error template instead.
+     */
+    fallbackField?: string | null;
+}
+
+/**
+ * A field type that is tried when the component for the requested field type cannot be found.
+ */
+export interface FieldFallbackCandidate {
+    /**
+     * The field type to try.
+     */
+    fieldType: string;
+
+    /**
+     * How the field type was found.
+     */
+    source: FieldFallbackSource;
+}
+
+/**
+ * The component that was found to replace a missing field component.
+ */
+export interface FieldFallbackResult<T extends FormField<any>> extends FieldFallbackCandidate {
+    /**
+     * The component of the fallback field type.
+     */
+    component: Type<T>;
+
+    /**
+     * The field types that were tried, in order (including the one that was used).
+     */
+    tried: string[];
+}
+
+/**
+ * The warning that is logged when a fallback component is used for a field.
+ */
+export interface FieldFallbackWarning {
+    /**
+     * Id of the field (as in the field context).
+     */
+    fieldId: string;
+
+    /**
+     * JSON-Pointer to the field.
+     */
+    pointer: string;
+
+    /**
+     * The field type that could not be found.
+     */
+    fieldType: string;
+
+    /**
+     * The field type that is used instead.
+     */
+    fallbackType: string;
+
+    /**
+     * How the fallback field type was found.
+     */
+    source: FieldFallbackSource;
+
+    /**
+     * The field types that were tried, in order (including the one that is used).
+     */
+    tried: string[];
+}
+
+/**
+ * Token to provide the fallback options with.
+ */
+export const fieldFallbackOptionsToken = new InjectionToken<FieldFallbackOptions>('FieldFallbackOptionsToken');
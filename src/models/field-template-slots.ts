@@ -0,0 +1,58 @@
+import { InjectionToken, TemplateRef } from '@angular/core';
+
+/**
+ * Named templates that the host of a field passes to it, e.g. { prefix: prefixTpl, label: labelTpl }.
+ */
+export interface FieldTemplateSlotMap {
+    [name: string]: TemplateRef<any>;
+}
+
+/**
+ * The named template slots a field component can render, as set by the host using "fieldSwitchSlots".
+ *
+ * Inject it in a field component using the fieldTemplateSlotsToken, and render the slots using ngTemplateOutlet:
+ * <ng-container *ngIf="slots.has('prefix')" [ngTemplateOutlet]="slots.get('prefix')"></ng-container>
+ */
+export class FieldTemplateSlots {
+    private slots: FieldTemplateSlotMap = {};
+
+    /**
+     * @param slots (Optional) The initial slots.
+     */
+    public constructor(slots?: FieldTemplateSlotMap) {
+        this.set(slots);
+    }
+
+    /**
+     * Replace the slots (the field component picks up the new templates on it's next change detection cycle).
+     */
+    public set(slots: FieldTemplateSlotMap | null | undefined): void {
+        this.slots = { ...(slots || {}) };
+    }
+
+    /**
+     * Whether a template was given for the slot with the given name.
+     */
+    public has(name: string): boolean {
+        return this.slots[name] != null;
+    }
+
+    /**
+     * Get the template for the slot with the given name.
+     */
+    public get(name: string): TemplateRef<any> | null {
+        return this.slots[name] || null;
+    }
+
+    /**
+     * The names of the slots that have a template.
+     */
+    public names(): string[] {
+        return Object.keys(this.slots).filter(x => this.slots[x] != null);
+    }
+}
+
+/**
+ * Token to inject the template slots of a field with.
+ */
+export const fieldTemplateSlotsToken = new InjectionToken('FieldTemplateSlotsToken');
@@ -0,0 +1,75 @@
+import { InjectionToken } from '@angular/core';
+import { ExtendedFieldDescriptor } from 'json-schema-services';
+
+/**
+ * Rule that determines the field type of fields that do not have an explicit "field.type" in their schema.
+ *
+ * All the properties that are set on the rule have to match the descriptor for the rule to apply.
+ * Rules are evaluated from the highest to the lowest priority, the first rule that matches determines the field type.
+ */
+export interface FieldTypeRule {
+    /**
+     * The name of the field type to use when this rule matches, e.g. "ColorField".
+     */
+    fieldType: string;
+
+    /**
+     * The priority of the rule, rules with a higher priority are evaluated first (defaults to 1000).
+     *
+     * The default rules use priorities between 100 and 600, so custom rules without a priority are evaluated before them.
+     */
+    priority?: number;
+
+    /**
+     * The JSON-schema type (or one of the types) the field should have.
+     */
+    type?: string | string[];
+
+    /**
+     * The format (or one of the formats) the field should have, e.g. "email" or "color".
+     */
+    format?: string | string[];
+
+    /**
+     * The type (or one of the types) of the items of an array field.
+     */
+    items?: string | string[];
+
+    /**
+     * Whether the field should (or should not) have an enum.
+     */
+    enum?: boolean;
+
+    /**
+     * Whether the field should (or should not) be linked to other data, or the name of the link it should use.
+     */
+    link?: boolean | string;
+
+    /**
+     * The content media type (or one of the media types) of the field, e.g. "image/png".
+     *
+     * Supports wildcards, like "image/*".
+     */
+    contentMediaType?: string | string[];
+
+    /**
+     * Custom check whether the rule matches the field.
+     */
+    match?(descriptor: ExtendedFieldDescriptor): boolean;
+}
+
+/**
+ * Multi-provider token for field type resolution rules.
+ */
+export const FORM_FIELD_TYPE_RULES = new InjectionToken<FieldTypeRule[][]>('FormFieldTypeRules');
+
+/**
+ * Provide rules for resolving the field type of fields.
+ *
+ * @param rules The rules to register.
+ */
+export function provideFieldTypeRules(rules: FieldTypeRule[]): any[] {
+    return [
+        { provide: FORM_FIELD_TYPE_RULES, useValue: rules, multi: true },
+    ];
+}
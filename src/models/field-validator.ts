@@ -0,0 +1,59 @@
+import { InjectionToken } from '@angular/core';
+
+import { FieldComponentContext } from './form-field-context';
+import { FormFieldValidationResult, ValidationLevel } from './form-field-validation';
+
+/**
+ * Custom validator for fields that have a specific keyword or format in their schema.
+ *
+ * Custom validators run after the field was successfully validated against the JSON-schema.
+ */
+export interface FieldValidatorRegistration {
+    /**
+     * The (custom) schema keyword the field should have for this validator to apply, e.g. "x-iban".
+     */
+    keyword?: string;
+
+    /**
+     * The value of the format keyword the field should have for this validator to apply, e.g. "vat-number".
+     */
+    format?: string;
+
+    /**
+     * The validation level to use when the validator only returns false or a message, defaults to ValidationLevel.Error.
+     */
+    level?: ValidationLevel;
+
+    /**
+     * Validate the value of a field.
+     *
+     * The result can be a complete validation result, a boolean, an error message (meaning the value is invalid)
+     * or nothing (meaning the value is valid), or a promise for any of those.
+     *
+     * @param value The value of the field.
+     * @param keywordValue The value of the keyword (or format) in the schema.
+     * @param field The context of the field that is validated.
+     */
+    validate(value: any, keywordValue: any, field: FieldComponentContext): FieldValidatorResult | Promise<FieldValidatorResult>;
+}
+
+/**
+ * The possible results of a custom field validator.
+ */
+export type FieldValidatorResult = FormFieldValidationResult | boolean | string | null | void;
+
+/**
+ * Multi-provider token for custom field validators.
+ */
+export const FORM_FIELD_VALIDATORS = new InjectionToken<FieldValidatorRegistration[][]>('FormFieldValidators');
+
+/**
+ * Provide custom field validators.
+ *
+ * @param validators The validators to register.
+ */
+export function provideFieldValidators(validators: FieldValidatorRegistration[]): any[] {
+    return [
+        { provide: FORM_FIELD_VALIDATORS, useValue: validators, multi: true },
+    ];
+}
@@ -0,0 +1,76 @@
+import { InjectionToken, Type, ViewContainerRef } from '@angular/core';
+
+import { FormField } from './form-field';
+import { FormFieldViewModel, FormFieldSet } from '../field-context-provider.service';
+
+/**
+ * Component that is rendered around a field component, e.g. to show it's label, description or validation message.
+ *
+ * The view model of the field can be injected using the fieldViewModelToken.
+ */
+export interface FormFieldWrapper {
+    /**
+     * The container the wrapped field (or the next wrapper) is created in.
+     *
+     * E.g. "@ViewChild('field', { read: ViewContainerRef, static: true }) public fieldContainer: ViewContainerRef;"
+     */
+    readonly fieldContainer: ViewContainerRef;
+}
+
+/**
+ * Registration of a field wrapper in the form field service.
+ *
+ * All the properties that are set to select fields have to match for the wrapper to be used.
+ */
+export interface FieldWrapperRegistration {
+    /**
+     * Unique name of the wrapper, registering another wrapper by the same name replaces it.
+     */
+    name: string;
+
+    /**
+     * The wrapper component.
+     */
+    component: Type<FormFieldWrapper>;
+
+    /**
+     * The order in which the wrappers are composed, wrappers with a lower order are rendered around the ones with a higher order (defaults to 0).
+     */
+    order?: number;
+
+    /**
+     * The field types (field.type) the wrapper is used for.
+     */
+    fieldTypes?: string[];
+
+    /**
+     * The ids of the fieldsets of which the fields get this wrapper.
+     */
+    fieldsets?: string[];
+
+    /**
+     * Custom method to determine whether the wrapper is used for the given field.
+     */
+    match?(field: FormFieldViewModel<FormField<any>>, fieldset?: FormFieldSet): boolean;
+}
+
+/**
+ * Multi-provider token for field wrappers.
+ */
+export const FORM_FIELD_WRAPPERS = new InjectionToken<FieldWrapperRegistration[][]>('FormFieldWrappers');
+
+/**
+ * Token to inject the view model of the wrapped field with.
+ */
+export const fieldViewModelToken = new InjectionToken('FieldViewModelToken');
+
+/**
+ * Provide field wrappers.
+ *
+ * @param wrappers The wrappers to register.
+ */
+export function provideFieldWrappers(wrappers: FieldWrapperRegistration[]): any[] {
+    return [
+        { provide: FORM_FIELD_WRAPPERS, useValue: wrappers, multi: true },
+    ];
+}
@@ -0,0 +1,78 @@
+import { InjectionToken } from '@angular/core';
+import { EntityIdentity } from 'json-schema-services';
+
+import { FormModes } from './form-field-context';
+
+/**
+ * Snapshot of an in-progress form, that can be restored later on.
+ */
+export interface FormDraft {
+    /**
+     * The key the draft was stored under.
+     */
+    key: string;
+
+    /**
+     * The id of the schema the form was generated for.
+     */
+    schemaId: string;
+
+    /**
+     * The identity of the entity that was edited, or null for new entities.
+     */
+    identity: EntityIdentity | null;
+
+    /**
+     * The mode the form was in when the draft was made.
+     */
+    mode: FormModes;
+
+    /**
+     * The complete data object of the form (as returned by FieldContextProvider.getData).
+     */
+    data: any;
+
+    /**
+     * JSON-Pointers of all fields that were dirty when the draft was made.
+     */
+    dirty: string[];
+
+    /**
+     * ISO-8601 formatted date and time of the moment the draft was made.
+     */
+    savedAt: string;
+}
+
+/**
+ * Storage backend for form drafts.
+ */
+export interface FormDraftStore {
+    /**
+     * Store the given draft under the given key, overwriting any previous draft with the same key.
+     *
+     * @param key The key to store the draft under.
+     * @param draft The draft to store.
+     */
+    save(key: string, draft: FormDraft): Promise<void>;
+
+    /**
+     * Load the draft with the given key.
+     *
+     * @param key The key the draft was stored under.
+     *
+     * @return The draft or null when there is none.
+     */
+    load(key: string): Promise<FormDraft | null>;
+
+    /**
+     * Remove the draft with the given key.
+     *
+     * @param key The key the draft was stored under.
+     */
+    remove(key: string): Promise<void>;
+}
+
+/**
+ * Token to provide the form draft store with.
+ */
+export const formDraftStoreToken = new InjectionToken<FormDraftStore>('FormDraftStore');
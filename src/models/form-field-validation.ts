@@ -85,3 +85,93 @@ export enum ValidationLevel {
      */
     Error
 }
+
+/**
+ * Summary of the validation state of a complete form.
+ */
+export interface FormValidationSummary {
+    /**
+     * Whether or not the whole form is valid.
+     */
+    valid: boolean;
+
+    /**
+     * The total number of errors in the form.
+     */
+    errors: number;
+
+    /**
+     * The total number of warnings in the form.
+     */
+    warnings: number;
+
+    /**
+     * The validation summary per (visible) fieldset.
+     */
+    fieldsets: FormFieldsetValidationSummary[];
+
+    /**
+     * All invalid fields and fieldsets.
+     */
+    invalid: FormInvalidFieldSummary[];
+}
+
+/**
+ * Summary of the validation state of a single fieldset.
+ */
+export interface FormFieldsetValidationSummary {
+    /**
+     * The identifier of the fieldset.
+     */
+    id: string;
+
+    /**
+     * The translated label of the fieldset.
+     */
+    label?: string;
+
+    /**
+     * Pointer to the common root of the fieldset.
+     */
+    pointer: string;
+
+    /**
+     * Whether the fieldset and all of it's fields are valid.
+     */
+    valid: boolean;
+
+    /**
+     * The number of errors in the fieldset (including it's fields).
+     */
+    errors: number;
+
+    /**
+     * The number of warnings in the fieldset (including it's fields).
+     */
+    warnings: number;
+}
+
+/**
+ * An invalid field (or fieldset) in the validation summary.
+ */
+export interface FormInvalidFieldSummary {
+    /**
+     * Pointer to the invalid field or fieldset.
+     */
+    pointer: string;
+
+    /**
+     * The translated label of the field or fieldset.
+     */
+    label: string;
+
+    /**
+     * The validation message.
+     */
+    message?: string;
+
+    /**
+     * The validation level.
+     */
+    level: ValidationLevel;
+}
@@ -18,7 +18,39 @@ export interface RegisterableFormField {
     readonly prototype: FormField<any>;
 }
 
+/**
+ * Method that loads a field component on demand, e.g. "() => import('./rich-text-field').then(m => m.RichTextFieldComponent)".
+ */
+export type FormFieldComponentLoader = () => Promise<Type<FormField<any>>>;
+
+/**
+ * Registration of a field component that is loaded on demand, so it can be split from the main bundle.
+ */
+export interface LazyFormFieldRegistration {
+    /**
+     * The name of the field.
+     */
+    fieldName: string;
+
+    /**
+     * Aliases for the field.
+     */
+    fieldAliases?: string[];
+
+    /**
+     * Method that loads the component class (it is called once, the first time the field is used).
+     */
+    loadComponent: FormFieldComponentLoader;
+}
+
 /**
  * Definition of a field-registration for the module.
  */
-export type formFieldRegistration = [string, Type<FormField<any>>] | RegisterableFormField;
+export type formFieldRegistration = [string, Type<FormField<any>>] | RegisterableFormField | LazyFormFieldRegistration;
+
+/**
+ * Check whether the given registration is for a field component that is loaded on demand.
+ */
+export function isLazyFormFieldRegistration(registration: any): registration is LazyFormFieldRegistration {
+    return registration != null && !Array.isArray(registration) && typeof registration.loadComponent === 'function';
+}
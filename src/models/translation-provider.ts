@@ -0,0 +1,67 @@
+import { InjectionToken } from '@angular/core';
+
+/**
+ * Parameters that are interpolated into a translated message.
+ */
+export type TranslationParams = { [name: string]: any };
+
+/**
+ * A catalog of translated messages by their token.
+ */
+export type TranslationCatalog = { [token: string]: string };
+
+/**
+ * Translates the tokens used by the forms (labels, descriptions, fieldset titles and validation messages).
+ */
+export interface TranslationProvider {
+    /**
+     * The locale the messages are translated to (used for plural rules and number formatting), e.g. "nl-NL".
+     */
+    readonly locale?: string;
+
+    /**
+     * Translate the first of the given tokens that is known, and interpolate the given parameters into it.
+     *
+     * Messages use the ICU message format, e.g. "{count, plural, =0 {no items} one {# item} other {# items}}".
+     *
+     * @param tokens The tokens to try, in order of preference.
+     * @param defaultValue (Optional) The message to use when none of the tokens are known.
+     * @param params (Optional) The parameters to interpolate into the message.
+     *
+     * @return The translated message, or the (interpolated) default value when none of the tokens are known.
+     */
+    translate(tokens: string[], defaultValue?: string, params?: TranslationParams): string;
+
+    /**
+     * Switch to another locale, e.g. by loading the catalog for it.
+     *
+     * @param locale The locale to switch to.
+     *
+     * @return A promise that resolves once the messages for the locale are available.
+     */
+    setLocale?(locale: string): void | Promise<void>;
+}
+
+/**
+ * A bundle of messages with an id and description, like the MessageBundle of @angular/compiler.
+ *
+ * Can be given instead of a translation provider, the descriptions of the messages are used as the translations of their ids.
+ */
+export interface TranslationMessageBundle {
+    /**
+     * Get all messages in the bundle.
+     */
+    getMessages(): { id: string, description?: string }[];
+}
+
+/**
+ * Check whether the given object is a message bundle (and not a translation provider).
+ */
+export function isTranslationMessageBundle(translations: any): translations is TranslationMessageBundle {
+    return translations != null && typeof translations.getMessages === 'function' && typeof translations.translate !== 'function';
+}
+
+/**
+ * Token to provide the translation provider (or a message bundle) with.
+ */
+export const translationProviderToken = new InjectionToken<TranslationProvider | TranslationMessageBundle>('TranslationProvider');
@@ -123,3 +123,27 @@ export function traverseFieldContextsWithAbsolutePointer([schemaId, pointer]: [s
         throw new Error(`The absolute pointer "${schemaId}${pointer}" could not be resolved raltive to context for schema [${context.schema.schemaId}].`);
     }
 }
+
+/**
+ * Convert a field path as given by a server (e.g. "address.street", "lines[0].amount" or "/lines/0/amount") to a JSON-Pointer.
+ *
+ * @param path The field path to convert.
+ */
+export function serverFieldPathToPointer(path: string): string {
+    var str = String(path == null ? '' : path).trim();
+    if (str[0] === '#') {
+        str = str.substr(1);
+    }
+    if (str[0] === '/' || str.length === 0) {
+        return str.length === 0 ? '/' : str;
+    }
+
+    // Strip the JSONPath root, and turn the bracketed indexes and keys into dotted ones.
+    str = str.replace(/^\$\.?/, '').replace(/\[\s*(?:'([^']*)'|"([^"]*)"|([^\]]*))\s*\]/g, (m, single, double, plain) =>
+        '.' + (single != null ? single : (double != null ? double : plain)).replace(/\./g, '\u0000'));
+
+    return '/' + str.split('.')
+        .filter(x => x.length > 0)
+        .map(x => x.replace(/\u0000/g, '.').replace(/~/g, '~0').replace(/\//g, '~1'))
+        .join('/');
+}
@@ -0,0 +1,88 @@
+import { Component, Inject } from '@angular/core';
+
+import { BaseFormField } from './models/base-form-field';
+import { FieldComponentContext, fieldComponentContextToken } from './models/form-field-context';
+
+import * as _ from 'lodash';
+
+/**
+ * Generic field that edits the value as JSON, used as the last resort when no component is registered for a field type.
+ *
+ * The value is only updated when the text is valid JSON, so the original value is kept until the user fixes the text.
+ */
+@Component({
+    selector: 'schema-raw-json-field',
+    template: `<textarea class="raw-json-field" rows="6" [attr.id]="context.id" [value]="text" [readOnly]="disabled"
+    (input)="onInput($event.target.value)" (focus)="focused = true" (blur)="focused = false"></textarea>
+<small class="raw-json-field-error" [hidden]="!parseError">{{ parseError }}</small>`,
+})
+export class RawJsonFieldComponent extends BaseFormField<any> {
+    /**
+     * The name of the field.
+     */
+    public static fieldName: string = 'RawJsonField';
+
+    /**
+     * Whether or not the field is loading.
+     */
+    public loading: boolean = false;
+
+    /**
+     * The JSON text shown in the editor.
+     */
+    public text: string;
+
+    /**
+     * The message of the error that occurred while parsing the text, if it is not valid JSON.
+     */
+    public parseError: string | null = null;
+
+    /**
+     * The value that was last parsed from the text.
+     */
+    private parsed: any;
+
+    public constructor(@Inject(fieldComponentContextToken) context: FieldComponentContext) {
+        super(context);
+        this.text = RawJsonFieldComponent.stringify(this.value);
+
+        // Update the text when the value is set from outside of the editor.
+        this.changed.subscribe(value => {
+            if (!_.isEqual(value, this.parsed)) {
+                this.text = RawJsonFieldComponent.stringify(value);
+                this.parseError = null;
+            }
+        });
+    }
+
+    /**
+     * Called when the user changes the text.
+     */
+    public onInput(text: string): void {
+        this.text = text;
+        try {
+            this.parsed = text.trim() === '' ? null : JSON.parse(text);
+            this.parseError = null;
+            this.value = this.parsed;
+        }
+        catch (e) {
+            this.parseError = e.message;
+        }
+    }
+
+    /**
+     * Reset's the value of this field to it's initial value.
+     */
+    public reset(): void {
+        super.reset();
+        this.text = RawJsonFieldComponent.stringify(this.value);
+        this.parseError = null;
+    }
+
+    /**
+     * Format the value as (indented) JSON.
+     */
+    private static stringify(value: any): string {
+        return value === void 0 ? '' : JSON.stringify(value, null, 2);
+    }
+}
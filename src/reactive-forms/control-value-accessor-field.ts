@@ -0,0 +1,115 @@
+import { OnDestroy, Type, forwardRef } from '@angular/core';
+import { ControlValueAccessor, NG_VALUE_ACCESSOR } from '@angular/forms';
+import { Subscription } from 'rxjs';
+
+import { BaseFormField } from '../models/base-form-field';
+import { FieldComponentContext } from '../models/form-field-context';
+
+/**
+ * Base field implementation that can be used both as a schema form field, and as a reactive forms input (ControlValueAccessor).
+ *
+ * Inject the field context optionally in the subclass, as there is none when the component is used in a regular reactive form:
+ * `@Inject(fieldComponentContextToken) @Optional() context: FieldComponentContext`
+ */
+export abstract class ControlValueAccessorFormField<T> extends BaseFormField<T> implements ControlValueAccessor, OnDestroy {
+    /**
+     * Callback registered by the forms API to notify it of value changes.
+     */
+    private onControlChange: (value: T) => void = () => void 0;
+
+    /**
+     * Callback registered by the forms API to notify it that the field was touched.
+     */
+    private onControlTouched: () => void = () => void 0;
+
+    /**
+     * Whether a value is currently being written by the forms API.
+     */
+    private writingControlValue: boolean = false;
+
+    /**
+     * Subscription that forwards value changes to the forms API.
+     */
+    private controlChangeSubscription: Subscription;
+
+    /**
+     * @param context The field context, when the field is created for a schema form.
+     */
+    public constructor(context?: FieldComponentContext) {
+        super(context, context == null);
+        this.controlChangeSubscription = this.changed.subscribe(value => {
+            if (!this.writingControlValue) {
+                this.onControlChange(value);
+            }
+        });
+    }
+
+    /**
+     * Write a new value from the form model into the field, without marking it as changed by the user.
+     */
+    public writeValue(value: T): void {
+        var dirty = this._dirty;
+        this.writingControlValue = true;
+        try {
+            this.value = value;
+        }
+        finally {
+            this.writingControlValue = false;
+            this._dirty = dirty;
+        }
+    }
+
+    /**
+     * Register the callback that is called when the value changes in the UI.
+     */
+    public registerOnChange(fn: (value: T) => void): void {
+        this.onControlChange = fn;
+    }
+
+    /**
+     * Register the callback that is called when the field is touched.
+     */
+    public registerOnTouched(fn: () => void): void {
+        this.onControlTouched = fn;
+    }
+
+    /**
+     * Enable or disable the field from the forms API.
+     */
+    public setDisabledState(isDisabled: boolean): void {
+        this.disabled = isDisabled;
+    }
+
+    /**
+     * Mark the field as touched, call this when the field loses focus.
+     */
+    public markAsTouched(): void {
+        this.focused = false;
+        this.onControlTouched();
+    }
+
+    /**
+     * Returns the *empty* value for this field.
+     */
+    public emptyValue(): T {
+        return !!this.context ? super.emptyValue() : null;
+    }
+
+    /**
+     * Stop notifying the forms API.
+     */
+    public ngOnDestroy(): void {
+        if (!!this.controlChangeSubscription) {
+            this.controlChangeSubscription.unsubscribe();
+        }
+    }
+}
+
+/**
+ * Provide the given component as the ControlValueAccessor of itself; add it to the providers of the component.
+ *
+ * @param component The component class that extends ControlValueAccessorFormField.
+ */
+export function provideControlValueAccessor(component: () => Type<any>): any {
+    return { provide: NG_VALUE_ACCESSOR, useExisting: forwardRef(component), multi: true };
+}
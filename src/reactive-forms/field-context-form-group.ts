@@ -0,0 +1,424 @@
+import { AbstractControl, FormControl, FormGroup, ValidationErrors } from '@angular/forms';
+import { Subject, Subscription } from 'rxjs';
+import { debounceTime, filter } from 'rxjs/operators';
+
+import { FormField } from '../models/form-field';
+import { ValidationLevel } from '../models/form-field-validation';
+import { FieldContextProvider, FormFieldViewModel } from '../field-context-provider.service';
+
+import * as _ from 'lodash';
+
+import debuglib from 'debug';
+const debug = debuglib('schema-ui:field-context-form-group');
+
+/**
+ * The key of the errors on a control that originate from the schema validation.
+ */
+export const schemaValidationErrorKey = 'schema';
+
+/**
+ * Options for the form group adapter.
+ */
+export interface FieldContextFormGroupOptions {
+    /**
+     * Whether to create (control backed) field instances for fields that are not rendered by a field component.
+     *
+     * Enable this when the controls are bound to reactive form inputs, instead of rendering the fields using the fieldSwitch directive.
+     */
+    createInstances?: boolean;
+}
+
+/**
+ * Exposes a field context provider as an Angular FormGroup, with a (nested) FormControl for every field.
+ *
+ * Values, disabled states and validation errors are kept in sync in both directions.
+ */
+export class FieldContextFormGroup {
+    /**
+     * The form group that represents the form.
+     */
+    public readonly group: FormGroup = new FormGroup({});
+
+    /**
+     * All bound controls by the pointer of their field.
+     */
+    private bindings: { [pointer: string]: FieldControlBinding } = {};
+
+    /**
+     * Subscriptions on the field context provider.
+     */
+    private subscriptions: Subscription[] = [];
+
+    /**
+     * @param provider The field context provider to expose.
+     * @param options Options for the adapter.
+     */
+    public constructor(public readonly provider: FieldContextProvider, private options: FieldContextFormGroupOptions = {}) {
+        provider.each(field => this.addControl(field));
+
+        this.subscriptions.push(
+            // (Re)bind the instances once they are created.
+            provider.fieldReady$.subscribe(field => this.bindInstance(field)),
+
+            // Update the errors of the controls after validation.
+            provider.validation$.subscribe(() => this.updateErrors()),
+
+            // Update the disabled states once all fields are available, and when the mode of the form changes.
+            provider.ready$.pipe(filter(x => x === true)).subscribe(() => this.updateDisabledStates()),
+            provider.modeChanged$.subscribe(() => this.updateDisabledStates()));
+    }
+
+    /**
+     * Get the control for the field with the given pointer.
+     */
+    public getControl(pointer: string): FormControl | null {
+        var binding = this.bindings[pointer];
+        return binding == null ? null : binding.control;
+    }
+
+    /**
+     * Update the errors of all controls, based on the validation results of their fields.
+     */
+    public updateErrors(): void {
+        _.each(this.bindings, binding => binding.control.updateValueAndValidity({ onlySelf: true, emitEvent: false }));
+        this.group.updateValueAndValidity({ emitEvent: false });
+    }
+
+    /**
+     * Update the disabled state of all controls, based on their fields.
+     */
+    public updateDisabledStates(): void {
+        _.each(this.bindings, binding => this.updateDisabledState(binding));
+    }
+
+    /**
+     * Stop syncing the form group with the field context provider.
+     */
+    public destroy(): void {
+        this.subscriptions.forEach(x => x.unsubscribe());
+        this.subscriptions = [];
+        _.each(this.bindings, binding => this.unbind(binding, true));
+        this.bindings = {};
+    }
+
+    /**
+     * Create the control for the given field, and add it to the (nested) group for it's pointer.
+     */
+    private addControl(field: FormFieldViewModel<FormField<any>>): void {
+        var path = field.ctx.pointer.split('/').filter(x => x.length > 0).map(x => x.replace(/~1/g, '/').replace(/~0/g, '~')),
+            name = path.pop(),
+            parent: AbstractControl = this.group;
+
+        for (var segment of path) {
+            var child = (parent as FormGroup).get(segment);
+            if (child == null) {
+                (parent as FormGroup).addControl(segment, child = new FormGroup({}));
+            }
+            else if (!(child instanceof FormGroup)) {
+                debug(`[warn] unable to add a control for "${field.ctx.pointer}", as one of it's parents is a field itself`);
+                return;
+            }
+            parent = child;
+        }
+
+        var binding: FieldControlBinding = {
+            field,
+            control: new FormControl(
+                _.cloneDeep(!!field.instance ? field.instance.value : (field.ctx.value !== void 0 ? field.ctx.value : field.ctx.initialValue)),
+                () => this.getSchemaErrors(field)),
+            subscriptions: [],
+            syncing: false,
+            controlErrors: false,
+        };
+        (parent as FormGroup).addControl(name, binding.control);
+        this.bindings[field.ctx.pointer] = binding;
+
+        this.updateDisabledState(binding);
+        binding.subscriptions.push(
+            binding.control.valueChanges.subscribe(value => this.writeFieldValue(binding, value)),
+            binding.control.statusChanges.subscribe(() => this.readControlState(binding)));
+
+        if (!!field.instance) {
+            this.bindInstance(field);
+        }
+        else if (this.options.createInstances === true) {
+            this.createInstance(binding);
+        }
+    }
+
+    /**
+     * Bind the (new) instance of the given field to it's control.
+     */
+    private bindInstance(field: FormFieldViewModel<FormField<any>>): void {
+        var binding = this.bindings[field.ctx.pointer];
+        if (binding == null || binding.instance === field.instance || !field.instance) {
+            return;
+        }
+
+        this.unbind(binding, false);
+        binding.instance = field.instance;
+        if (field.instance instanceof FormControlFormField) {
+            // Control backed instances are already in sync.
+            return;
+        }
+
+        binding.instanceSubscription = field.instance.changed.subscribe(value => {
+            if (binding.syncing) {
+                return;
+            }
+            binding.syncing = true;
+            try {
+                binding.control.setValue(_.cloneDeep(value));
+                if (field.instance.dirty) {
+                    binding.control.markAsDirty();
+                }
+            }
+            finally {
+                binding.syncing = false;
+            }
+        });
+
+        this.syncControlValue(binding);
+        this.updateDisabledState(binding);
+    }
+
+    /**
+     * Create a field instance that is backed by the control, for a field that is not rendered by a field component.
+     */
+    private createInstance(binding: FieldControlBinding): void {
+        var instance = new FormControlFormField(binding.control, binding.field.ctx.initialValue);
+        binding.field.instance = instance;
+
+        // The fieldSwitch directive normally notifies the provider of changes, so do that ourselves.
+        binding.subscriptions.push(instance.changed
+            .pipe(debounceTime(500), filter(() => this.provider.isEditMode() && binding.field.instance === instance))
+            .subscribe(() => this.provider.fieldChanged$.next(binding.field)));
+
+        this.provider.fieldReady$.next(binding.field);
+    }
+
+    /**
+     * Write a new control value into the field.
+     */
+    private writeFieldValue(binding: FieldControlBinding, value: any): void {
+        if (binding.syncing) {
+            return;
+        }
+
+        binding.syncing = true;
+        try {
+            if (!!binding.field.instance) {
+                binding.field.instance.value = _.cloneDeep(value);
+            }
+            else {
+                binding.field.ctx.value = _.cloneDeep(value);
+            }
+        }
+        finally {
+            binding.syncing = false;
+        }
+    }
+
+    /**
+     * Set the value of the control to the current value of the field instance.
+     */
+    private syncControlValue(binding: FieldControlBinding): void {
+        if (!binding.field.instance || _.isEqual(binding.control.value, binding.field.instance.value)) {
+            return;
+        }
+
+        binding.syncing = true;
+        try {
+            binding.control.setValue(_.cloneDeep(binding.field.instance.value), { emitEvent: false });
+        }
+        finally {
+            binding.syncing = false;
+        }
+    }
+
+    /**
+     * Apply the disabled state of the field to the control.
+     */
+    private updateDisabledState(binding: FieldControlBinding): void {
+        var disabled = !!binding.field.ctx.readonly || (!!binding.field.instance && !!binding.field.instance.disabled);
+        if (disabled === binding.control.disabled) {
+            return;
+        }
+
+        binding.syncing = true;
+        try {
+            if (disabled) {
+                binding.control.disable({ emitEvent: false });
+            }
+            else {
+                binding.control.enable({ emitEvent: false });
+            }
+        }
+        finally {
+            binding.syncing = false;
+        }
+    }
+
+    /**
+     * Apply the disabled state and the (non-schema) errors of the control to the field.
+     */
+    private readControlState(binding: FieldControlBinding): void {
+        if (binding.syncing) {
+            return;
+        }
+
+        if (!!binding.field.instance) {
+            binding.field.instance.disabled = binding.control.disabled;
+        }
+
+        var errors = _.omit(binding.control.errors || {}, schemaValidationErrorKey);
+        if (!_.isEmpty(errors)) {
+            binding.field.validation = {
+                message: _.map(errors, (error: any, key: string) => error != null && typeof error.message === 'string' ? error.message : key).join(', '),
+                valid: false,
+                level: ValidationLevel.Error,
+            };
+            binding.controlErrors = true;
+        }
+        else if (binding.controlErrors) {
+            // The errors of the control are gone, so the validation result of the field itself applies again.
+            binding.controlErrors = false;
+            this.provider.validateField(binding.field)
+                .catch(e => debug(`[warn] unable to validate field "${binding.field.ctx.pointer}" after it's control errors were cleared`, e));
+        }
+    }
+
+    /**
+     * Validator that exposes the schema validation result of the field as an error on the control.
+     */
+    private getSchemaErrors(field: FormFieldViewModel<FormField<any>>): ValidationErrors | null {
+        if (field.validation == null || field.validation.valid || field.validation.level !== ValidationLevel.Error) {
+            return null;
+        }
+        return { [schemaValidationErrorKey]: { message: field.validation.message, level: field.validation.level } };
+    }
+
+    /**
+     * Stop syncing the instance of the binding (and optionally the control itself).
+     */
+    private unbind(binding: FieldControlBinding, control: boolean): void {
+        if (!!binding.instanceSubscription) {
+            binding.instanceSubscription.unsubscribe();
+            binding.instanceSubscription = void 0;
+        }
+        binding.instance = void 0;
+
+        if (control) {
+            binding.subscriptions.forEach(x => x.unsubscribe());
+            binding.subscriptions = [];
+            if (binding.field.instance instanceof FormControlFormField) {
+                binding.field.instance.destroy();
+            }
+        }
+    }
+}
+
+/**
+ * Field instance that is backed by a form control, used for fields that are not rendered by a field component.
+ */
+export class FormControlFormField<T> implements FormField<T> {
+    /**
+     * Event fired when the value of this field changes.
+     */
+    public changed: Subject<T> = new Subject<T>();
+
+    /**
+     * Whether or not this field is currently focus[s]ed.
+     */
+    public focused: boolean = false;
+
+    /**
+     * Whether or not the field is loading.
+     */
+    public loading: boolean = false;
+
+    /**
+     * Subscription on the value changes of the control.
+     */
+    private subscription: Subscription;
+
+    /**
+     * @param control The control that holds the value.
+     * @param initialValue The initial value of the field.
+     */
+    public constructor(private control: FormControl, public initialValue: T) {
+        this.subscription = control.valueChanges.subscribe(value => this.changed.next(value));
+    }
+
+    /**
+     * The value of the field.
+     */
+    public get value(): T {
+        return this.control.value;
+    }
+    public set value(val: T) {
+        this.control.setValue(val);
+        this.control.markAsDirty();
+    }
+
+    /**
+     * The disabled state of the field.
+     */
+    public get disabled(): boolean {
+        return this.control.disabled;
+    }
+    public set disabled(val: boolean) {
+        if (val) {
+            this.control.disable();
+        }
+        else {
+            this.control.enable();
+        }
+    }
+
+    /**
+     * Whether or not the value is different from it's initial value.
+     */
+    public get dirty(): boolean {
+        return this.control.dirty && !_.isEqual(this.control.value, this.initialValue);
+    }
+    public set dirty(val: boolean) {
+        if (val) {
+            this.control.markAsDirty();
+        }
+        else {
+            this.control.markAsPristine();
+        }
+    }
+
+    /**
+     * Reset this field to it's initialValue.
+     */
+    public reset(): void {
+        this.control.reset(_.cloneDeep(this.initialValue));
+    }
+
+    /**
+     * Stop emitting the value changes of the control.
+     */
+    public destroy(): void {
+        this.subscription.unsubscribe();
+        this.changed.complete();
+    }
+}
+
+/**
+ * Binding between a field and it's control.
+ */
+interface FieldControlBinding {
+    field: FormFieldViewModel<FormField<any>>;
+    control: FormControl;
+    instance?: FormField<any>;
+    instanceSubscription?: Subscription;
+    subscriptions: Subscription[];
+    syncing: boolean;
+    /**
+     * Whether the validation result of the field was set from the errors of the control.
+     */
+    controlErrors: boolean;
+}
@@ -0,0 +1,146 @@
+import {
+    collectConditionalRequiredRules,
+    collectConditionalSchemaRules,
+    getConditionallyRequiredPointers,
+    getConditionallyHiddenPointers,
+    matchesSchema,
+    resolveSubschema,
+} from './schema-conditions';
+
+describe('schema-conditions', () => {
+    var schema: any = {
+        type: 'object',
+        properties: {
+            kind: { type: 'string', enum: ['person', 'company'] },
+            name: { type: 'string' },
+            address: {
+                type: 'object',
+                properties: {
+                    country: { type: 'string' },
+                },
+                dependentSchemas: {
+                    country: { properties: { region: { type: 'string' } } },
+                },
+            },
+        },
+        if: { properties: { kind: { const: 'company' } } },
+        then: { properties: { vatNumber: { type: 'string' } } },
+        else: { properties: { birthDate: { type: 'string' } } },
+        dependencies: {
+            name: { properties: { nickname: { type: 'string' } } },
+        },
+    };
+
+    describe('collectConditionalSchemaRules', () => {
+        it('creates a rule for both branches of if/then/else', () => {
+            var rules = collectConditionalSchemaRules(schema);
+
+            expect(rules.find(x => x.visible.indexOf('/vatNumber') > -1).negate).toBe(false);
+            expect(rules.find(x => x.visible.indexOf('/birthDate') > -1).negate).toBe(true);
+        });
+
+        it('creates rules for dependencies and dependentSchemas of nested objects', () => {
+            var rules = collectConditionalSchemaRules(schema);
+
+            expect(rules.find(x => x.visible.indexOf('/nickname') > -1).condition).toEqual({ required: ['name'] } as any);
+            expect(rules.find(x => x.visible.indexOf('/address/region') > -1).pointer).toBe('/address');
+        });
+
+        it('does not govern properties that are declared on the object itself', () => {
+            var rules = collectConditionalSchemaRules({
+                properties: { a: {}, b: {} },
+                if: { required: ['a'] },
+                then: { properties: { b: {} } },
+            } as any);
+
+            expect(rules).toEqual([]);
+        });
+    });
+
+    describe('getConditionallyHiddenPointers', () => {
+        it('hides the fields of inactive rules', () => {
+            var rules = collectConditionalSchemaRules(schema),
+                hidden = getConditionallyHiddenPointers(rules, { kind: 'company', address: {} }, schema);
+
+            expect(hidden).toContain('/birthDate');
+            expect(hidden).toContain('/nickname');
+            expect(hidden).toContain('/address/region');
+            expect(hidden).not.toContain('/vatNumber');
+        });
+
+        it('shows the fields of dependent schemas once the property is set', () => {
+            var rules = collectConditionalSchemaRules(schema),
+                hidden = getConditionallyHiddenPointers(rules, { kind: 'person', name: 'Jane', address: { country: 'NL' } }, schema);
+
+            expect(hidden).toEqual(['/vatNumber']);
+        });
+    });
+
+    describe('matchesSchema', () => {
+        it('checks the keywords used in conditions', () => {
+            expect(matchesSchema({ type: 'string', minLength: 2, pattern: '^[a-z]+$' } as any, 'ab')).toBe(true);
+            expect(matchesSchema({ type: 'string', minLength: 2 } as any, 'a')).toBe(false);
+            expect(matchesSchema({ enum: [1, 2] } as any, 3)).toBe(false);
+            expect(matchesSchema({ not: { const: 'x' } } as any, 'x')).toBe(false);
+            expect(matchesSchema({ oneOf: [{ type: 'integer' }, { type: 'number' }] } as any, 1)).toBe(false);
+            expect(matchesSchema({ required: ['a'], properties: { a: { minimum: 2 } } } as any, { a: 1 })).toBe(false);
+        });
+
+        it('does not match patterns that cannot be compiled', () => {
+            expect(matchesSchema({ type: 'string', pattern: '(?<=a' } as any, 'a')).toBe(false);
+        });
+
+        it('follows local references', () => {
+            var root: any = { definitions: { small: { maximum: 10 } }, properties: { n: { $ref: '#/definitions/small' } } };
+
+            expect(matchesSchema(root.properties.n, 5, root)).toBe(true);
+            expect(matchesSchema(root.properties.n, 50, root)).toBe(false);
+        });
+    });
+
+    describe('resolveSubschema', () => {
+        it('resolves properties, items and references', () => {
+            var root: any = {
+                definitions: { line: { properties: { amount: { type: 'number' } } } },
+                properties: { lines: { type: 'array', items: { $ref: '#/definitions/line' } } },
+            };
+
+            expect(resolveSubschema(root, '/lines/0/amount')).toEqual({ type: 'number' } as any);
+            expect(resolveSubschema(root, '/unknown')).toBeNull();
+        });
+    });
+
+    describe('conditional required rules', () => {
+        var required: any = {
+            type: 'object',
+            properties: {
+                kind: { type: 'string' },
+                email: { type: 'string' },
+                phone: { type: 'string' },
+                vatNumber: { type: 'string' },
+                billing: {
+                    type: 'object',
+                    properties: { street: { type: 'string' }, city: { type: 'string' } },
+                    dependentRequired: { street: ['city'] },
+                },
+            },
+            if: { properties: { kind: { const: 'company' } }, required: ['kind'] },
+            then: { required: ['vatNumber'] },
+            dependencies: { email: ['phone'] },
+        };
+
+        it('collects rules from if/then, dependencies and nested dependentRequired', () => {
+            var rules = collectConditionalRequiredRules(required);
+
+            expect(rules.map(x => x.required)).toEqual([['/vatNumber'], ['/phone'], ['/billing/city']]);
+        });
+
+        it('only requires the fields of active rules', () => {
+            var rules = collectConditionalRequiredRules(required);
+
+            expect(getConditionallyRequiredPointers(rules, { kind: 'person', billing: {} }, required)).toEqual([]);
+            expect(getConditionallyRequiredPointers(rules, { kind: 'company', email: 'a@b.c', billing: { street: 'Main' } }, required))
+                .toEqual(['/vatNumber', '/phone', '/billing/city']);
+        });
+    });
+});
@@ -0,0 +1,469 @@
+import { JsonSchema, pointerGet } from 'json-schema-services';
+
+import * as _ from 'lodash';
+
+import debuglib from 'debug';
+const debug = debuglib('schema-ui:schema-conditions');
+
+/**
+ * Method that resolves a $ref to the schema it refers to.
+ */
+export type SchemaReferenceResolver = (ref: string) => JsonSchema | null;
+
+/**
+ * A rule derived from the if/then/else, dependentSchemas or dependencies keywords of a schema.
+ *
+ * The rule is "active" when the value of the object at the rule's pointer matches the condition (or does not, if negated).
+ */
+export interface ConditionalSchemaRule {
+    /**
+     * JSON-Pointer to the object the condition is checked against ('' for the root).
+     */
+    pointer: string;
+
+    /**
+     * The schema the object should match for the rule to become active.
+     */
+    condition: JsonSchema;
+
+    /**
+     * Whether the rule is active when the condition does *not* match (e.g. the else-branch).
+     */
+    negate: boolean;
+
+    /**
+     * JSON-Pointers of the fields that should only be visible when this rule is active.
+     */
+    visible: string[];
+}
+
+/**
+ * A rule derived from the dependentRequired, dependencies (array form) or if/then/else required keywords of a schema.
+ *
+ * When the rule is active, the listed fields are required.
+ */
+export interface ConditionalRequiredRule {
+    /**
+     * JSON-Pointer to the object the condition is checked against ('' for the root).
+     */
+    pointer: string;
+
+    /**
+     * The schema the object should match for the rule to become active.
+     */
+    condition: JsonSchema;
+
+    /**
+     * Whether the rule is active when the condition does *not* match (e.g. the else-branch).
+     */
+    negate: boolean;
+
+    /**
+     * JSON-Pointers of the fields that are required when this rule is active.
+     */
+    required: string[];
+}
+
+/**
+ * Resolve a (local or remote) reference.
+ *
+ * @param root The schema the reference was found in, used for local references.
+ * @param ref The reference to resolve.
+ * @param resolver Resolver for references to other schemas.
+ */
+export function resolveSchemaReference(root: JsonSchema, ref: string, resolver?: SchemaReferenceResolver): JsonSchema | null {
+    var [schemaId, fragment] = String(ref).split('#', 2),
+        target: JsonSchema = root;
+
+    if (schemaId.length > 0) {
+        target = !!resolver ? resolver(schemaId) || resolver(schemaId + '#') : null;
+    }
+    if (target == null) {
+        return null;
+    }
+
+    if (fragment == null || fragment.length === 0 || fragment === '/') {
+        return target;
+    }
+    try {
+        return pointerGet(target, fragment);
+    }
+    catch (e) {
+        return null;
+    }
+}
+
+/**
+ * Get the sub-schema that describes the value at the given data pointer.
+ *
+ * @param root The schema to start from.
+ * @param pointer A JSON-Pointer into the data described by the schema.
+ * @param resolver Resolver for references to other schemas.
+ */
+export function resolveSubschema(root: JsonSchema, pointer: string, resolver?: SchemaReferenceResolver): JsonSchema | null {
+    var current: any = dereferenceSchema(root, root, resolver);
+    for (var segment of String(pointer).split('/').filter(x => x.length > 0)) {
+        if (current == null) {
+            return null;
+        }
+
+        segment = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+        if (current.properties != null && current.properties[segment] != null) {
+            current = current.properties[segment];
+        }
+        else if (current.items != null && /^\d+$/.test(segment)) {
+            current = Array.isArray(current.items) ? current.items[parseInt(segment, 10)] : current.items;
+        }
+        else if (_.isPlainObject(current.additionalProperties)) {
+            current = current.additionalProperties;
+        }
+        else {
+            return null;
+        }
+        current = dereferenceSchema(current, root, resolver);
+    }
+    return current;
+}
+
+/**
+ * Collect all the conditional rules from the given (object) schema and the object schemas nested within it.
+ *
+ * @param schema The schema describing the object at the given pointer.
+ * @param pointer JSON-Pointer to the object described by the schema ('' for the root).
+ * @param root The root schema, used to resolve local references.
+ * @param resolver Resolver for references to other schemas.
+ */
+export function collectConditionalSchemaRules(
+    schema: JsonSchema,
+    pointer: string = '',
+    root: JsonSchema = schema,
+    resolver?: SchemaReferenceResolver,
+    visited: any[] = [],
+): ConditionalSchemaRule[] {
+    var resolved: any = dereferenceSchema(schema, root, resolver);
+    if (!_.isPlainObject(resolved) || visited.indexOf(resolved) > -1) {
+        return [];
+    }
+    visited = visited.concat([resolved]);
+
+    var rules: ConditionalSchemaRule[] = [],
+        declared = _.keys(resolved.properties || {});
+
+    // Rules defined on this object (possibly composed using allOf).
+    for (var part of [resolved].concat(resolved.allOf || []).map(x => dereferenceSchema(x, root, resolver))) {
+        if (!_.isPlainObject(part)) {
+            continue;
+        }
+
+        if (part.if != null) {
+            rules.push(createRule(pointer, part.if, false, part.then, declared, root, resolver));
+            rules.push(createRule(pointer, part.if, true, part.else, declared, root, resolver));
+        }
+        _.each(part.dependentSchemas, (dependent: JsonSchema, property: string) =>
+            rules.push(createRule(pointer, { required: [property] } as any, false, dependent, declared, root, resolver)));
+        _.each(part.dependencies, (dependent: JsonSchema | string[], property: string) => {
+            if (!Array.isArray(dependent)) {
+                rules.push(createRule(pointer, { required: [property] } as any, false, dependent, declared, root, resolver));
+            }
+        });
+    }
+
+    // Rules defined on nested objects.
+    _.each(resolved.properties, (property: JsonSchema, name: string) => {
+        rules = rules.concat(collectConditionalSchemaRules(property, pointer + '/' + name, root, resolver, visited));
+    });
+
+    return rules.filter(x => x.visible.length > 0);
+}
+
+/**
+ * Collect all the conditional required rules from the given (object) schema and the object schemas nested within it.
+ *
+ * @param schema The schema describing the object at the given pointer.
+ * @param pointer JSON-Pointer to the object described by the schema ('' for the root).
+ * @param root The root schema, used to resolve local references.
+ * @param resolver Resolver for references to other schemas.
+ */
+export function collectConditionalRequiredRules(
+    schema: JsonSchema,
+    pointer: string = '',
+    root: JsonSchema = schema,
+    resolver?: SchemaReferenceResolver,
+    visited: any[] = [],
+): ConditionalRequiredRule[] {
+    var resolved: any = dereferenceSchema(schema, root, resolver);
+    if (!_.isPlainObject(resolved) || visited.indexOf(resolved) > -1) {
+        return [];
+    }
+    visited = visited.concat([resolved]);
+
+    var rules: ConditionalRequiredRule[] = [];
+
+    // Rules defined on this object (possibly composed using allOf).
+    for (var part of [resolved].concat(resolved.allOf || []).map(x => dereferenceSchema(x, root, resolver))) {
+        if (!_.isPlainObject(part)) {
+            continue;
+        }
+
+        if (part.if != null) {
+            rules.push(createRequiredRule(pointer, part.if, false, getRequiredNames(dereferenceSchema(part.then, root, resolver))));
+            rules.push(createRequiredRule(pointer, part.if, true, getRequiredNames(dereferenceSchema(part.else, root, resolver))));
+        }
+        _.each(part.dependentRequired, (required: string[], property: string) =>
+            rules.push(createRequiredRule(pointer, { required: [property] } as any, false, required)));
+        _.each(part.dependencies, (dependent: JsonSchema | string[], property: string) => {
+            var required = Array.isArray(dependent) ? dependent : getRequiredNames(dereferenceSchema(dependent, root, resolver));
+            rules.push(createRequiredRule(pointer, { required: [property] } as any, false, required));
+        });
+        _.each(part.dependentSchemas, (dependent: JsonSchema, property: string) =>
+            rules.push(createRequiredRule(pointer, { required: [property] } as any, false, getRequiredNames(dereferenceSchema(dependent, root, resolver)))));
+    }
+
+    // Rules defined on nested objects.
+    _.each(resolved.properties, (property: JsonSchema, name: string) => {
+        rules = rules.concat(collectConditionalRequiredRules(property, pointer + '/' + name, root, resolver, visited));
+    });
+
+    return rules.filter(x => x.required.length > 0);
+}
+
+/**
+ * Get the pointers of all fields that are required by active conditional required rules.
+ *
+ * @param rules The conditional required rules of the schema.
+ * @param data The complete data object of the form.
+ * @param root The root schema, used to resolve local references.
+ * @param resolver Resolver for references to other schemas.
+ */
+export function getConditionallyRequiredPointers(rules: ConditionalRequiredRule[], data: any, root?: JsonSchema, resolver?: SchemaReferenceResolver): string[] {
+    var required: string[] = [];
+    for (var rule of rules) {
+        if (isConditionalSchemaRuleActive(rule, data, root, resolver)) {
+            required = required.concat(rule.required);
+        }
+    }
+    return _.uniq(required);
+}
+
+/**
+ * Check whether the given rule is active for the given data.
+ *
+ * @param rule The rule to check.
+ * @param data The complete data object of the form.
+ * @param root The root schema, used to resolve local references.
+ * @param resolver Resolver for references to other schemas.
+ */
+export function isConditionalSchemaRuleActive(rule: ConditionalSchemaRule | ConditionalRequiredRule, data: any, root?: JsonSchema, resolver?: SchemaReferenceResolver): boolean {
+    var value: any;
+    if (rule.pointer.length === 0) {
+        value = data;
+    }
+    else {
+        try {
+            value = pointerGet(data, rule.pointer);
+        }
+        catch (e) {
+            value = void 0;
+        }
+    }
+
+    var matches = value !== void 0 && matchesSchema(rule.condition, value, root, resolver);
+    return rule.negate ? !matches : matches;
+}
+
+/**
+ * Get the pointers of all fields that are hidden by inactive conditional rules.
+ *
+ * A field that is governed by multiple rules is visible as soon as one of them is active.
+ *
+ * @param rules The conditional rules of the schema.
+ * @param data The complete data object of the form.
+ * @param root The root schema, used to resolve local references.
+ * @param resolver Resolver for references to other schemas.
+ */
+export function getConditionallyHiddenPointers(rules: ConditionalSchemaRule[], data: any, root?: JsonSchema, resolver?: SchemaReferenceResolver): string[] {
+    var visible: string[] = [],
+        governed: string[] = [];
+
+    for (var rule of rules) {
+        governed = governed.concat(rule.visible);
+        if (isConditionalSchemaRuleActive(rule, data, root, resolver)) {
+            visible = visible.concat(rule.visible);
+        }
+    }
+
+    return _.difference(_.uniq(governed), visible);
+}
+
+/**
+ * Lightweight check whether a value matches a (condition) schema.
+ *
+ * Only supports the keywords commonly used in conditions, any other keyword is ignored.
+ *
+ * @param schema The schema to check the value against.
+ * @param value The value to check.
+ * @param root The root schema, used to resolve local references.
+ * @param resolver Resolver for references to other schemas.
+ */
+export function matchesSchema(schema: JsonSchema | boolean, value: any, root?: JsonSchema, resolver?: SchemaReferenceResolver): boolean {
+    if (typeof schema === 'boolean') {
+        return schema;
+    }
+
+    var s: any = dereferenceSchema(schema, root || schema, resolver);
+    if (s == null) {
+        return true;
+    }
+
+    if (s.type != null && !(Array.isArray(s.type) ? s.type : [s.type]).some((type: string) => matchesType(type, value))) {
+        return false;
+    }
+    if (s.hasOwnProperty('const') && !_.isEqual(s.const, value)) {
+        return false;
+    }
+    if (Array.isArray(s.enum) && !s.enum.some((x: any) => _.isEqual(x, value))) {
+        return false;
+    }
+
+    if (typeof value === 'number') {
+        if ((s.minimum != null && value < s.minimum) || (s.maximum != null && value > s.maximum)) {
+            return false;
+        }
+        if ((typeof s.exclusiveMinimum === 'number' && value <= s.exclusiveMinimum) || (typeof s.exclusiveMaximum === 'number' && value >= s.exclusiveMaximum)) {
+            return false;
+        }
+    }
+
+    if (typeof value === 'string') {
+        if ((s.minLength != null && value.length < s.minLength) || (s.maxLength != null && value.length > s.maxLength)) {
+            return false;
+        }
+        if (s.pattern != null && !matchesPattern(s.pattern, value)) {
+            return false;
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if ((s.minItems != null && value.length < s.minItems) || (s.maxItems != null && value.length > s.maxItems)) {
+            return false;
+        }
+        if (s.contains != null && !value.some(x => matchesSchema(s.contains, x, root, resolver))) {
+            return false;
+        }
+        if (_.isPlainObject(s.items) && !value.every(x => matchesSchema(s.items, x, root, resolver))) {
+            return false;
+        }
+    }
+
+    if (_.isPlainObject(value)) {
+        if (Array.isArray(s.required) && !s.required.every((x: string) => value[x] !== void 0)) {
+            return false;
+        }
+        if (s.properties != null && !_.every(s.properties, (sub: JsonSchema, name: string) => value[name] === void 0 || matchesSchema(sub, value[name], root, resolver))) {
+            return false;
+        }
+    }
+
+    if (s.not != null && matchesSchema(s.not, value, root, resolver)) {
+        return false;
+    }
+    if (Array.isArray(s.allOf) && !s.allOf.every((x: JsonSchema) => matchesSchema(x, value, root, resolver))) {
+        return false;
+    }
+    if (Array.isArray(s.anyOf) && !s.anyOf.some((x: JsonSchema) => matchesSchema(x, value, root, resolver))) {
+        return false;
+    }
+    if (Array.isArray(s.oneOf) && s.oneOf.filter((x: JsonSchema) => matchesSchema(x, value, root, resolver)).length !== 1) {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Create a rule for a conditional branch.
+ */
+function createRule(
+    pointer: string,
+    condition: JsonSchema,
+    negate: boolean,
+    branch: JsonSchema,
+    declared: string[],
+    root: JsonSchema,
+    resolver?: SchemaReferenceResolver,
+): ConditionalSchemaRule {
+    var resolved: any = dereferenceSchema(branch, root, resolver);
+    return {
+        pointer,
+        condition,
+        negate,
+        // Properties that are also declared on the object itself are always visible.
+        visible: _.difference(_.keys((resolved && resolved.properties) || {}), declared).map(x => pointer + '/' + x),
+    };
+}
+
+/**
+ * Create a required rule for a conditional branch.
+ */
+function createRequiredRule(pointer: string, condition: JsonSchema, negate: boolean, required: string[]): ConditionalRequiredRule {
+    return { pointer, condition, negate, required: _.uniq(required || []).map(x => pointer + '/' + x) };
+}
+
+/**
+ * Get the names of the required properties of the given (branch) schema.
+ */
+function getRequiredNames(schema: any): string[] {
+    return _.isPlainObject(schema) && Array.isArray(schema.required) ? schema.required.filter((x: any) => typeof x === 'string') : [];
+}
+
+/**
+ * Follow the $ref of the given schema (if any).
+ *
+ * @param schema The schema to dereference.
+ * @param root The root schema, used to resolve local references.
+ * @param resolver Resolver for references to other schemas.
+ */
+export function dereferenceSchema(schema: JsonSchema, root: JsonSchema, resolver?: SchemaReferenceResolver): any {
+    var result: any = schema, depth = 0;
+    while (_.isPlainObject(result) && typeof result.$ref === 'string' && depth++ < 32) {
+        result = resolveSchemaReference(root, result.$ref, resolver);
+    }
+    return result;
+}
+
+/**
+ * Check whether the value matches the given pattern, patterns that cannot be compiled never match.
+ */
+function matchesPattern(pattern: string, value: string): boolean {
+    try {
+        return new RegExp(pattern).test(value);
+    }
+    catch (e) {
+        debug(`[warn] unable to compile the pattern "${pattern}", the value is treated as not matching`, e);
+        return false;
+    }
+}
+
+/**
+ * Check whether the value is of the given JSON-Schema type.
+ */
+function matchesType(type: string, value: any): boolean {
+    switch (type) {
+        case 'null':
+            return value === null;
+        case 'boolean':
+            return typeof value === 'boolean';
+        case 'integer':
+            return typeof value === 'number' && Math.floor(value) === value;
+        case 'number':
+            return typeof value === 'number';
+        case 'string':
+            return typeof value === 'string';
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return _.isPlainObject(value);
+        default:
+            return true;
+    }
+}
@@ -5,11 +5,20 @@ import { CachedDataProvider } from './cached-data-provider.service';
 import { LooselyLinkedDataProvider } from './loosely-linked-data-provider.service';
 import { LinkedDataCache } from './linked-data-cache.service';
 import { FieldComponentSwitchDirective } from './field-component-swap.directive';
+import { RawJsonFieldComponent } from './raw-json-field.component';
 import { formFieldRegistration } from './models/registerable-form-field';
+import { FieldValidatorRegistration, provideFieldValidators } from './models/field-validator';
+import { FieldTypeRule, provideFieldTypeRules } from './models/field-type-rule';
+import { FieldWrapperRegistration, provideFieldWrappers } from './models/field-wrapper';
+import { FieldFallbackOptions, fieldFallbackOptionsToken } from './models/field-fallback';
 
 @NgModule({
     declarations: [
         FieldComponentSwitchDirective,
+        RawJsonFieldComponent,
+    ],
+    entryComponents: [
+        RawJsonFieldComponent,
     ],
     providers: [
         CachedDataProvider,
@@ -17,6 +26,7 @@ import { formFieldRegistration } from './models/registerable-form-field';
     ],
     exports: [
         FieldComponentSwitchDirective,
+        RawJsonFieldComponent,
     ]
 })
 export class SchemaFieldsModule {
@@ -49,4 +59,58 @@ export class SchemaFieldsModule {
             providers: FormFieldService.provideFormFields(entryFields || []),
         };
     }
+
+    /**
+     * Returns a NgModule that supplies the given custom field validators.
+     *
+     * @param validators A list of validators for custom schema keywords or formats.
+     * @returns ModuleWithProviders
+     */
+    public static withValidators(validators: FieldValidatorRegistration[]): ModuleWithProviders<SchemaFieldsModule> {
+        return {
+            ngModule: SchemaFieldsModule,
+            providers: provideFieldValidators(validators || []),
+        };
+    }
+
+    /**
+     * Returns a NgModule that supplies the given rules to resolve field types.
+     *
+     * @param rules A list of rules that map schema properties (type, format, etc.) to field types.
+     * @returns ModuleWithProviders
+     */
+    public static withFieldTypeRules(rules: FieldTypeRule[]): ModuleWithProviders<SchemaFieldsModule> {
+        return {
+            ngModule: SchemaFieldsModule,
+            providers: provideFieldTypeRules(rules || []),
+        };
+    }
+
+    /**
+     * Returns a NgModule that supplies the given wrappers to render around field components.
+     *
+     * @param wrappers A list of wrappers (e.g. label or validation message chrome), selected per field type or fieldset.
+     * @returns ModuleWithProviders
+     */
+    public static withFieldWrappers(wrappers: FieldWrapperRegistration[]): ModuleWithProviders<SchemaFieldsModule> {
+        return {
+            ngModule: SchemaFieldsModule,
+            providers: provideFieldWrappers(wrappers || []),
+        };
+    }
+
+    /**
+     * Returns a NgModule that configures which field types are tried when no component is registered for a field type.
+     *
+     * @param options The aliases to try per field type, and whether to use the type-based default and the raw JSON field.
+     * @returns ModuleWithProviders
+     */
+    public static withFieldFallback(options: FieldFallbackOptions): ModuleWithProviders<SchemaFieldsModule> {
+        return {
+            ngModule: SchemaFieldsModule,
+            providers: [
+                { provide: fieldFallbackOptionsToken, useValue: options || {} },
+            ],
+        };
+    }
 }
@@ -0,0 +1,103 @@
+import { convertToSchemaVariant, detectSchemaVariant, getDefaultSchemaVariant, getSchemaVariants } from './schema-variants';
+
+describe('schema-variants', () => {
+    var root: any = {
+        definitions: {
+            card: {
+                title: 'Credit card',
+                type: 'object',
+                properties: {
+                    method: { const: 'card' },
+                    number: { type: 'string' },
+                    holder: { type: 'string' },
+                },
+                required: ['number'],
+            },
+            bank: {
+                title: 'Bank transfer',
+                type: 'object',
+                properties: {
+                    method: { enum: ['bank'] },
+                    iban: { type: 'string' },
+                    holder: { type: 'string' },
+                    instant: { type: 'boolean', default: false },
+                },
+                required: ['iban'],
+            },
+        },
+        properties: {
+            payment: { oneOf: [{ $ref: '#/definitions/card' }, { $ref: '#/definitions/bank' }] },
+        },
+    };
+
+    describe('getSchemaVariants', () => {
+        it('infers the discriminator from properties with a const value in every branch', () => {
+            var variants = getSchemaVariants(root.properties.payment, root);
+
+            expect(variants.map(x => [x.id, x.label, x.discriminator])).toEqual([
+                ['card', 'Credit card', 'method'],
+                ['bank', 'Bank transfer', 'method'],
+            ]);
+        });
+
+        it('uses the discriminator keyword and its mapping', () => {
+            var variants = getSchemaVariants({
+                oneOf: [{ $ref: '#/definitions/card' }, { $ref: '#/definitions/bank' }],
+                discriminator: { propertyName: 'kind', mapping: { c: '#/definitions/card', b: '#/definitions/bank' } },
+            } as any, root);
+
+            expect(variants.map(x => [x.id, x.discriminator, x.discriminatorValue])).toEqual([['c', 'kind', 'c'], ['b', 'kind', 'b']]);
+        });
+
+        it('falls back to the title or index of a branch', () => {
+            var variants = getSchemaVariants({ anyOf: [{ title: 'Text', type: 'string' }, { type: 'number' }] } as any, root);
+
+            expect(variants.map(x => x.id)).toEqual(['Text', '1']);
+            expect(variants[1].discriminator).toBeUndefined();
+        });
+
+        it('returns null for schemas without variants', () => {
+            expect(getSchemaVariants({ type: 'string' } as any, root)).toBeNull();
+            expect(getSchemaVariants({ oneOf: [{ type: 'string' }] } as any, root)).toBeNull();
+        });
+    });
+
+    describe('detectSchemaVariant', () => {
+        var variants = getSchemaVariants(root.properties.payment, root);
+
+        it('detects the variant by the discriminator value', () => {
+            expect(detectSchemaVariant(variants, { method: 'bank' }, root).id).toBe('bank');
+        });
+
+        it('detects the variant by matching the schema of the branches', () => {
+            expect(detectSchemaVariant(variants, { iban: 'NL00BANK0123456789' }, root).id).toBe('bank');
+            expect(detectSchemaVariant(variants, { holder: 'Jane' }, root)).toBeNull();
+            expect(detectSchemaVariant(variants, null, root)).toBeNull();
+        });
+    });
+
+    describe('getDefaultSchemaVariant', () => {
+        var variants = getSchemaVariants(root.properties.payment, root);
+
+        it('uses the variant of the default value, or the first variant', () => {
+            expect(getDefaultSchemaVariant(variants, { method: 'bank' }, root).id).toBe('bank');
+            expect(getDefaultSchemaVariant(variants, void 0, root).id).toBe('card');
+            expect(getDefaultSchemaVariant([], void 0, root)).toBeNull();
+        });
+    });
+
+    describe('convertToSchemaVariant', () => {
+        it('carries over compatible properties and fills in the defaults and discriminator', () => {
+            var variants = getSchemaVariants(root.properties.payment, root);
+
+            expect(convertToSchemaVariant({ method: 'card', number: '4111', holder: 'Jane' }, variants[1], root))
+                .toEqual({ method: 'bank', holder: 'Jane', instant: false });
+        });
+
+        it('starts from an empty object for values that are not objects', () => {
+            var variants = getSchemaVariants(root.properties.payment, root);
+
+            expect(convertToSchemaVariant('card', variants[0], root)).toEqual({ method: 'card' });
+        });
+    });
+});
@@ -0,0 +1,193 @@
+import { JsonSchema } from 'json-schema-services';
+
+import { SchemaReferenceResolver, dereferenceSchema, matchesSchema } from './schema-conditions';
+
+import * as _ from 'lodash';
+
+/**
+ * A variant (branch) of a oneOf or anyOf schema.
+ */
+export interface SchemaVariant {
+    /**
+     * Identifier of the variant; the value of the discriminator, the title of the branch or it's index.
+     */
+    id: string;
+
+    /**
+     * The label of the variant, as used in the variant selector.
+     */
+    label: string;
+
+    /**
+     * The name of the discriminator property, if the variants have one.
+     */
+    discriminator?: string;
+
+    /**
+     * The value of the discriminator property for this variant.
+     */
+    discriminatorValue?: any;
+
+    /**
+     * The (dereferenced) schema of the branch.
+     */
+    schema: JsonSchema;
+}
+
+/**
+ * Get the variants of a schema that uses oneOf or anyOf to describe different kinds of objects.
+ *
+ * The discriminator is taken from the "discriminator" keyword (either a property name, or an OpenAPI style { propertyName, mapping }).
+ * When it is not set, a property that has a const (or single enum) value in every branch is used.
+ *
+ * @param schema The schema of the field.
+ * @param root The root schema, used to resolve local references.
+ * @param resolver Resolver for references to other schemas.
+ *
+ * @return The variants, or null if the schema does not have (at least two) variants.
+ */
+export function getSchemaVariants(schema: JsonSchema, root: JsonSchema, resolver?: SchemaReferenceResolver): SchemaVariant[] | null {
+    var s: any = dereferenceSchema(schema, root, resolver);
+    if (!_.isPlainObject(s)) {
+        return null;
+    }
+
+    var branches: any[] = (Array.isArray(s.oneOf) ? s.oneOf : Array.isArray(s.anyOf) ? s.anyOf : [])
+        .map((x: JsonSchema) => dereferenceSchema(x, root, resolver))
+        .filter((x: any) => _.isPlainObject(x));
+    if (branches.length < 2) {
+        return null;
+    }
+
+    var discriminator = getDiscriminatorProperty(s, branches),
+        mapping: { [value: string]: string } = _.isPlainObject(s.discriminator) ? s.discriminator.mapping || {} : {};
+
+    return branches.map((branch, index) => {
+        var value = discriminator != null ? getConstValue(branch, discriminator) : void 0,
+            ref = (Array.isArray(s.oneOf) ? s.oneOf : s.anyOf)[index].$ref;
+
+        // Find the discriminator value using the mapping of the discriminator.
+        if (value === void 0 && ref != null) {
+            value = _.findKey(mapping, x => x === ref);
+        }
+
+        var id = value !== void 0 ? String(value) : (typeof branch.title === 'string' ? branch.title : String(index));
+        return {
+            id,
+            label: typeof branch.title === 'string' ? branch.title : id,
+            discriminator,
+            discriminatorValue: value,
+            schema: branch,
+        } as SchemaVariant;
+    });
+}
+
+/**
+ * Detect which variant the given value belongs to.
+ *
+ * @param variants The variants of the schema.
+ * @param value The value to detect the variant for.
+ * @param root The root schema, used to resolve local references.
+ * @param resolver Resolver for references to other schemas.
+ *
+ * @return The variant, or null when the value does not match any of them.
+ */
+export function detectSchemaVariant(variants: SchemaVariant[], value: any, root?: JsonSchema, resolver?: SchemaReferenceResolver): SchemaVariant | null {
+    if (value == null || !Array.isArray(variants) || variants.length === 0) {
+        return null;
+    }
+
+    var discriminator = variants[0].discriminator;
+    if (discriminator != null && _.isPlainObject(value) && value[discriminator] !== void 0) {
+        var discriminated = variants.find(x => _.isEqual(x.discriminatorValue, value[discriminator]));
+        if (discriminated != null) {
+            return discriminated;
+        }
+    }
+
+    return variants.find(x => matchesSchema(x.schema, value, root, resolver)) || null;
+}
+
+/**
+ * Get the variant to use when the value of a field does not belong to any of its variants (e.g. because it is empty).
+ *
+ * @param variants The variants of the schema.
+ * @param defaultValue The default value of the schema.
+ * @param root The root schema, used to resolve local references.
+ * @param resolver Resolver for references to other schemas.
+ *
+ * @return The variant the default value belongs to, or the first variant.
+ */
+export function getDefaultSchemaVariant(variants: SchemaVariant[], defaultValue: any, root?: JsonSchema, resolver?: SchemaReferenceResolver): SchemaVariant | null {
+    if (!Array.isArray(variants) || variants.length === 0) {
+        return null;
+    }
+    return detectSchemaVariant(variants, defaultValue, root, resolver) || variants[0];
+}
+
+/**
+ * Convert a value to another variant, carrying over the properties that are compatible with it.
+ *
+ * @param value The current value.
+ * @param variant The variant to convert the value to.
+ * @param root The root schema, used to resolve local references.
+ * @param resolver Resolver for references to other schemas.
+ */
+export function convertToSchemaVariant(value: any, variant: SchemaVariant, root?: JsonSchema, resolver?: SchemaReferenceResolver): any {
+    var schema: any = variant.schema,
+        result: any = {};
+
+    if (!_.isPlainObject(value)) {
+        value = {};
+    }
+
+    _.each(value, (property: any, name: string) => {
+        var sub = schema.properties != null ? schema.properties[name] : void 0;
+        if (sub != null ? matchesSchema(sub, property, root, resolver) : schema.additionalProperties !== false && schema.properties == null) {
+            result[name] = _.cloneDeep(property);
+        }
+    });
+
+    // Fill in the defaults of the variant.
+    _.each(schema.properties, (sub: any, name: string) => {
+        var resolved = dereferenceSchema(sub, root, resolver);
+        if (result[name] === void 0 && _.isPlainObject(resolved) && resolved.default !== void 0) {
+            result[name] = _.cloneDeep(resolved.default);
+        }
+    });
+
+    if (variant.discriminator != null && variant.discriminatorValue !== void 0) {
+        result[variant.discriminator] = variant.discriminatorValue;
+    }
+    return result;
+}
+
+/**
+ * Determine the name of the property that discriminates the branches.
+ */
+function getDiscriminatorProperty(schema: any, branches: any[]): string | undefined {
+    if (typeof schema.discriminator === 'string') {
+        return schema.discriminator;
+    }
+    if (_.isPlainObject(schema.discriminator) && typeof schema.discriminator.propertyName === 'string') {
+        return schema.discriminator.propertyName;
+    }
+
+    return _.keys(branches[0].properties || {}).find(name =>
+        branches.every(branch => getConstValue(branch, name) !== void 0) &&
+        _.uniqWith(branches.map(branch => getConstValue(branch, name)), _.isEqual).length === branches.length);
+}
+
+/**
+ * Get the const (or single enum) value of a property of a branch.
+ */
+function getConstValue(branch: any, property: string): any {
+    var sub = branch.properties != null ? branch.properties[property] : void 0;
+    if (!_.isPlainObject(sub)) {
+        return void 0;
+    }
+    if (sub.hasOwnProperty('const')) {
+        return sub.const;
+    }
+    return Array.isArray(sub.enum) && sub.enum.length === 1 ? sub.enum[0] : void 0;
+}
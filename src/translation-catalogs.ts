@@ -0,0 +1,113 @@
+import { TranslationCatalog } from './models/translation-provider';
+
+import * as _ from 'lodash';
+
+/**
+ * Parse a JSON translation catalog.
+ *
+ * Supports flat objects of messages by token, nested objects (where the keys are joined using underscores)
+ * and the Angular i18n JSON format ({ "locale": "nl", "translations": { ... } }).
+ *
+ * @param source The JSON string or the already parsed object.
+ */
+export function parseJsonCatalog(source: string | object): TranslationCatalog {
+    var data: any = typeof source === 'string' ? JSON.parse(source) : source;
+    if (_.isPlainObject(data) && _.isPlainObject(data.translations)) {
+        data = data.translations;
+    }
+    if (!_.isPlainObject(data)) {
+        throw new Error('A JSON translation catalog should be an object containing the messages by their token.');
+    }
+
+    var catalog: TranslationCatalog = {},
+        flatten = (obj: any, prefix: string) => _.each(obj, (value: any, key: string) => {
+            if (_.isPlainObject(value)) {
+                flatten(value, prefix + key + '_');
+            }
+            else if (value != null) {
+                catalog[prefix + key] = String(value);
+            }
+        });
+    flatten(data, '');
+    return catalog;
+}
+
+/**
+ * Parse a XLIFF (1.2 or 2.0) translation catalog.
+ *
+ * The id of each unit is used as the token, the target (or the source when there is no target) as the message.
+ * Placeholder elements (<x id="name"/> or <ph name="name"/>) are turned into ICU arguments ({name}).
+ *
+ * @param source The XLIFF document.
+ */
+export function parseXliffCatalog(source: string): TranslationCatalog {
+    if (typeof source !== 'string' || source.indexOf('<xliff') < 0) {
+        throw new Error('The given XLIFF translation catalog is not a XLIFF document.');
+    }
+
+    var catalog: TranslationCatalog = {},
+        unitPattern = /<(trans-unit|unit)\b([^>]*)>([\s\S]*?)<\/\1>/g,
+        unit: RegExpExecArray;
+
+    while ((unit = unitPattern.exec(source)) != null) {
+        var id = getXmlAttribute(unit[2], 'id'),
+            target = /<target\b[^>]*>([\s\S]*?)<\/target>/.exec(unit[3]) || /<source\b[^>]*>([\s\S]*?)<\/source>/.exec(unit[3]);
+        if (id != null && target != null) {
+            catalog[id] = getXliffText(target[1]);
+        }
+    }
+    return catalog;
+}
+
+/**
+ * Load a JSON translation catalog.
+ *
+ * @param source The JSON string, object, or a promise for either (e.g. the result of a HTTP request).
+ */
+export function loadJsonCatalog(source: string | object | Promise<string | object>): Promise<TranslationCatalog> {
+    return Promise.resolve(source).then(x => parseJsonCatalog(x));
+}
+
+/**
+ * Load a XLIFF translation catalog.
+ *
+ * @param source The XLIFF document, or a promise for it (e.g. the result of a HTTP request).
+ */
+export function loadXliffCatalog(source: string | Promise<string>): Promise<TranslationCatalog> {
+    return Promise.resolve(source).then(x => parseXliffCatalog(x));
+}
+
+/**
+ * Get the value of an attribute from the attributes of a XML element.
+ */
+function getXmlAttribute(attributes: string, name: string): string | null {
+    var match = new RegExp('\\b' + name + '\\s*=\\s*("([^"]*)"|\'([^\']*)\')').exec(attributes);
+    return match == null ? null : decodeXmlEntities(match[2] != null ? match[2] : match[3]);
+}
+
+/**
+ * Get the text of a XLIFF source or target element.
+ */
+function getXliffText(content: string): string {
+    return decodeXmlEntities(content
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (m: string, text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;'))
+        .replace(/<(x|ph)\b([^>]*)\/>/g, (m: string, tag: string, attributes: string) => {
+            var name = getXmlAttribute(attributes, tag === 'x' ? 'id' : 'name') || getXmlAttribute(attributes, 'id');
+            return name == null ? '' : '{' + name + '}';
+        })
+        .replace(/<[^>]+>/g, ''));
+}
+
+/**
+ * Decode the (predefined and numeric) entities in a XML text.
+ */
+function decodeXmlEntities(text: string): string {
+    return text
+        .replace(/&#x([0-9a-f]+);/gi, (m: string, code: string) => String.fromCharCode(parseInt(code, 16)))
+        .replace(/&#([0-9]+);/g, (m: string, code: string) => String.fromCharCode(parseInt(code, 10)))
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, '\'')
+        .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,154 @@
+import { Injectable, Inject, Optional } from '@angular/core';
+
+import { TranslationCatalog, TranslationParams, TranslationProvider } from './models/translation-provider';
+import { formatMessage, interpolateMessage } from './message-format';
+
+import * as _ from 'lodash';
+
+/**
+ * Translation provider that translates tokens using catalogs of messages (e.g. loaded from JSON or XLIFF files).
+ */
+@Injectable()
+export class CatalogTranslationProvider implements TranslationProvider {
+    /**
+     * The locale the messages are currently translated to.
+     */
+    public get locale(): string {
+        return this._locale;
+    }
+    private _locale: string;
+
+    /**
+     * The messages by their token, per locale.
+     */
+    private catalogs: { [locale: string]: TranslationCatalog } = {};
+
+    /**
+     * Methods that load the catalog for a locale, once it is switched to.
+     */
+    private loaders: { [locale: string]: () => Promise<TranslationCatalog> } = {};
+
+    /**
+     * @param locale The locale of the messages.
+     * @param catalog (Optional) The initial messages.
+     */
+    public constructor(
+        @Inject('translationLocale') @Optional() locale?: string,
+        @Inject('translationCatalog') @Optional() catalog?: TranslationCatalog,
+    ) {
+        this._locale = locale;
+        this.add(catalog);
+    }
+
+    /**
+     * Add the messages of the given catalog, messages with the same token are overwritten.
+     *
+     * @param catalog The messages to add.
+     * @param locale (Optional) The locale of the messages, defaults to the current locale.
+     */
+    public add(catalog: TranslationCatalog, locale: string = this.locale): void {
+        var key = locale || '';
+        this.catalogs[key] = _.assign(this.catalogs[key] || {}, catalog || {});
+    }
+
+    /**
+     * Add the messages of the catalog that is being loaded (using loadJsonCatalog or loadXliffCatalog).
+     *
+     * @param catalog The catalog that is being loaded.
+     * @param locale (Optional) The locale of the messages, defaults to the current locale.
+     */
+    public load(catalog: Promise<TranslationCatalog>, locale: string = this.locale): Promise<void> {
+        return catalog.then(x => this.add(x, locale));
+    }
+
+    /**
+     * Register a method that loads the catalog for the given locale, once it is switched to.
+     *
+     * @example provider.register('nl', () => loadXliffCatalog(http.get('/i18n/messages.nl.xlf', { responseType: 'text' }).toPromise()));
+     */
+    public register(locale: string, loader: () => Promise<TranslationCatalog>): void {
+        this.loaders[locale || ''] = loader;
+    }
+
+    /**
+     * Switch to another locale, loading it's catalog if it was registered but not yet loaded.
+     */
+    public setLocale(locale: string): Promise<void> {
+        var key = locale || '',
+            loaded = this.catalogs[key] != null || this.loaders[key] == null
+                ? Promise.resolve()
+                : this.load(this.loaders[key](), locale);
+
+        return loaded.then(() => {
+            this._locale = locale;
+        });
+    }
+
+    /**
+     * Whether a message is known for the given token (in the current locale).
+     */
+    public has(token: string): boolean {
+        var catalog = this.catalogs[this.locale || ''];
+        return catalog != null && catalog.hasOwnProperty(token);
+    }
+
+    /**
+     * Translate the first of the given tokens that is known, and interpolate the given parameters into it.
+     *
+     * Only messages from the catalog are formatted as ICU messages, the default value only gets it's "{name}" placeholders replaced.
+     */
+    public translate(tokens: string[], defaultValue?: string, params?: TranslationParams): string {
+        var token = (tokens || []).find(x => this.has(x));
+        if (token == null) {
+            return interpolateMessage(defaultValue, params);
+        }
+        return formatMessage(this.catalogs[this.locale || ''][token], params, this.locale);
+    }
+
+    /**
+     * Create a translation provider for a list of messages with an id and description (like those in a message bundle).
+     *
+     * @param messages The messages.
+     * @param locale (Optional) The locale of the messages.
+     */
+    public static fromMessages(messages: { id: string, description?: string }[], locale?: string): CatalogTranslationProvider {
+        var catalog: TranslationCatalog = {};
+        for (var message of messages || []) {
+            if (message.description != null) {
+                catalog[message.id] = message.description;
+            }
+        }
+        return new CatalogTranslationProvider(locale, catalog);
+    }
+}
+
+/**
+ * Translation provider that wraps a translateMessageOrDefault function.
+ */
+export class FunctionTranslationProvider implements TranslationProvider {
+    /**
+     * @param translateMessageOrDefault The function that translates the messages.
+     * @param locale (Optional) The locale of the messages.
+     */
+    public constructor(
+        private translateMessageOrDefault: (tokens: string[], placeholder?: string, params?: TranslationParams) => string,
+        public locale?: string,
+    ) { }
+
+    /**
+     * Switch to another locale (the translation function is expected to follow the locale of the application itself).
+     */
+    public setLocale(locale: string): void {
+        this.locale = locale;
+    }
+
+    /**
+     * Translate the first of the given tokens that is known, and interpolate the given parameters into it.
+     *
+     * When the function returns the default value it is not formatted as an ICU message, only it's "{name}" placeholders are replaced.
+     */
+    public translate(tokens: string[], defaultValue?: string, params?: TranslationParams): string {
+        var translated = this.translateMessageOrDefault(tokens, defaultValue, params);
+        return translated === defaultValue ? interpolateMessage(translated, params) : formatMessage(translated, params, this.locale);
+    }
+}